@@ -2,7 +2,16 @@
 import React, { useEffect, useRef, useState, useImperativeHandle, forwardRef } from 'react';
 import { GameEngine } from './engine';
 import { GameState, MapType, PlayerStats, CardDef, CardType, Rarity } from './types';
-import { getRandomCard, ALL_CARDS } from './constants';
+import { ALL_CARDS, ALL_EVOLUTIONS, findCardTemplate, findEvolution, fusionResult, instantiateCard } from './constants';
+import { EvolutionProgress, EvolutionRecipe, evolutionProgress } from './evolutions';
+import { FUSION_COPIES, cardLevel, findFusions } from './fusion';
+import { DamageReport, dpsTimeline, rankCards, reactionName, reportTotal } from './damage';
+import { parseReplay, serializeReplay } from './replay';
+import { SaveFile, readSave } from './save';
+import { CastPreview, castsReachedBy, groupInventory, isGroupActive, isLightning, previewCast, resolveSpellGroup } from './spells';
+import { TICKS_PER_SECOND } from './simulation';
+import { DEFAULT_WAVE_SCRIPT, WAVE_SCRIPTS } from './waves';
+import { randomSeed } from './rng';
 import Muuri from 'muuri';
 
 // Extend window for gm
@@ -15,7 +24,7 @@ declare global {
 interface SpellBoardProps {
     items: CardDef[];
     layoutMap: {[id: string]: number}; // Maps card ID to row index (0-3)
-    onHover: (item: CardDef | null) => void;
+    onHover: (item: CardDef | null, reached: CastPreview[]) => void; // reached: artifacts the card applies to
     rowCount: number;
 }
 
@@ -24,21 +33,24 @@ const SpellBoard = forwardRef((props: SpellBoardProps, ref) => {
     const rowRefs = useRef<(HTMLDivElement | null)[]>([]);
     const gridsRef = useRef<any[]>([]);
     
-    // Split items into buckets based on layoutMap
-    // Memoize this calculation so we don't re-calculate on every render unless props change
-    // However, since we need to render the DOM elements for Muuri to pick up, we do this in render.
-    const buckets: CardDef[][] = Array.from({ length: rowCount }, () => []);
-    
-    items.forEach(item => {
-        let rowIndex = layoutMap[item.id];
-        // If no saved layout, default to row 0 (or distribute if we wanted smart defaults)
-        // Let's just put new items in the first row that isn't "full" visually, or just Row 0.
-        // For simplicity, default to Row 0.
-        if (rowIndex === undefined || rowIndex < 0 || rowIndex >= rowCount) {
-             rowIndex = 0;
-        }
-        buckets[rowIndex].push(item);
-    });
+    // Split items into buckets based on layoutMap, the same way the engine groups them.
+    // Rendered here since Muuri needs the DOM elements to pick up.
+    const buckets = groupInventory(items, { layoutMap, rowCount });
+
+    // Rows as currently arranged: follows drags live, null until the first drag
+    const [draggedGroups, setDraggedGroups] = useState<CardDef[][] | null>(null);
+    const groups = draggedGroups ?? buckets;
+    // Rows without an artifact cast nothing
+    const activeRows = groups.map(isGroupActive);
+    const casts = groups.map(resolveSpellGroup);
+
+    // Hovering a card lights up the artifacts it reaches
+    const [hoveredId, setHoveredId] = useState<string | null>(null);
+    const reachedIds = new Set(hoveredId ? casts.flatMap(row => castsReachedBy(hoveredId, row)).map(c => c.card.id) : []);
+    const hover = (card: CardDef | null) => {
+        setHoveredId(card ? card.id : null);
+        onHover(card, card ? casts.flatMap(row => castsReachedBy(card.id, row)).map(previewCast) : []);
+    };
 
     useImperativeHandle(ref, () => ({
         // Returns both the linear order (for Engine) and the layout map (for UI persistence)
@@ -97,6 +109,20 @@ const SpellBoard = forwardRef((props: SpellBoardProps, ref) => {
 
         gridsRef.current = grids;
 
+        const byId = new Map(items.map(c => [c.id, c]));
+        const refreshGroups = () => {
+            setDraggedGroups(gridsRef.current.map(grid =>
+                grid.getItems()
+                    .map((item: any) => byId.get(item.getElement().getAttribute('data-id')))
+                    .filter(Boolean)
+            ));
+        };
+        setDraggedGroups(null);
+        grids.forEach(grid => {
+            grid.on('dragReleaseEnd', refreshGroups);
+            grid.on('receive', refreshGroups);
+        });
+
         return () => {
             gridsRef.current.forEach(g => g.destroy());
             gridsRef.current = [];
@@ -106,20 +132,24 @@ const SpellBoard = forwardRef((props: SpellBoardProps, ref) => {
     return (
         <div className="spell-board-container">
              {buckets.map((bucketItems, rowIndex) => (
-                 <div key={rowIndex}>
-                     <div className="spell-row-label">法术组 {rowIndex + 1}</div>
+                 <div key={rowIndex} className={activeRows[rowIndex] ? '' : 'spell-row-inactive'}>
+                     <div className="spell-row-label">
+                         法术组 {rowIndex + 1}
+                         {!activeRows[rowIndex] && <span className="spell-row-inactive-tag">未激活 (需要法宝)</span>}
+                     </div>
                      <div className="spell-row" ref={el => rowRefs.current[rowIndex] = el}>
                         {bucketItems.map((card) => (
                             <div key={card.id} className="item" data-id={card.id}>
                                 <div 
-                                    className={`item-content rarity-${card.rarity}`}
-                                    onMouseEnter={() => onHover(card)}
-                                    onMouseLeave={() => onHover(null)}
-                                    onTouchStart={() => onHover(card)}
+                                    className={`item-content rarity-${card.rarity} ${card.id !== hoveredId && reachedIds.has(card.id) ? 'item-reached' : ''}`}
+                                    onMouseEnter={() => hover(card)}
+                                    onMouseLeave={() => hover(null)}
+                                    onTouchStart={() => hover(card)}
                                 >
                                      {card.type === CardType.EFFECT && <div className="badge badge-effect">EF</div>}
                                      {card.type === CardType.BUFF && <div className="badge badge-buff">BF</div>}
                                      {card.type === CardType.ARTIFACT && <div className="badge badge-art">ART</div>}
+                                     {card.level && <div className="badge badge-level">Lv{card.level}</div>}
                                      
                                      <span style={{ color: card.iconColor, fontWeight: 'bold' }}>
                                          {card.name.substring(0,2)}
@@ -134,6 +164,105 @@ const SpellBoard = forwardRef((props: SpellBoardProps, ref) => {
     );
 });
 
+// Who did the damage this run; reactions count for the card that set them off
+const DamageReportPanel = ({ report, gameTime }: { report: DamageReport; gameTime: number }) => {
+    const ranked = rankCards(report);
+    if (ranked.length === 0) return null;
+    const total = reportTotal(report) || 1;
+    const seconds = Math.max(1, gameTime / TICKS_PER_SECOND);
+
+    // By name, so variants of one reaction (yellow and blue overload) add up
+    const reactions: { [name: string]: number } = {};
+    ranked.forEach(([, card]) => Object.entries(card.byReaction).forEach(([r, dmg]) => {
+        const name = reactionName(r);
+        reactions[name] = (reactions[name] || 0) + dmg;
+    }));
+
+    return (
+        <div className="damage-report">
+            <div className="damage-report-title">伤害统计</div>
+            <table>
+                <thead>
+                    <tr><th>来源</th><th>伤害</th><th>占比</th><th>DPS</th><th>击杀</th><th>溢出</th><th>DPS 走势</th></tr>
+                </thead>
+                <tbody>
+                    {ranked.map(([id, card]) => {
+                        const dps = dpsTimeline(card);
+                        const peak = Math.max(...dps, 1);
+                        return (
+                            <tr key={id}>
+                                <td>{card.name}</td>
+                                <td>{Math.round(card.total)}</td>
+                                <td>{(card.total / total * 100).toFixed(1)}%</td>
+                                <td>{(card.total / seconds).toFixed(1)}</td>
+                                <td>{card.kills}</td>
+                                <td>{Math.round(card.overkill)}</td>
+                                <td>
+                                    <div className="damage-spark">
+                                        {dps.map((v, i) => <span key={i} style={{ height: `${Math.max(4, v / peak * 100)}%` }} />)}
+                                    </div>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            {Object.keys(reactions).length > 0 && (
+                <div className="damage-report-reactions">
+                    反应: {Object.entries(reactions).map(([r, dmg]) => `${r} ${Math.round(dmg)}`).join(' · ')}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const levelTag = (card: CardDef) => card.level ? ` Lv${card.level}` : '';
+
+const EVOLUTION_PROGRESS: Record<EvolutionProgress, string> = {
+    evolved: '已进化',
+    ready: '继续游戏时进化',
+    eligible: '放入同一法术组即可进化',
+    locked: '未集齐'
+};
+
+const cardName = (id: string) => findCardTemplate(id)?.name ?? id;
+
+const recipeText = (recipe: EvolutionRecipe) =>
+    `${cardName(recipe.artifact)} Lv${recipe.level} + ${cardName(recipe.with)}`;
+
+// Every recipe and how far this run is from it, so evolutions can be found in play
+const EvolutionList = ({ inventory, layoutMap, rowCount }: { inventory: CardDef[]; layoutMap: { [id: string]: number }; rowCount: number }) => (
+    <div className="evolution-list">
+        <div className="evolution-list-title">进化图鉴</div>
+        {ALL_EVOLUTIONS.map(recipe => {
+            const progress = evolutionProgress(recipe, inventory, { layoutMap, rowCount });
+            const into = findCardTemplate(recipe.into);
+            return (
+                <div key={recipe.id} className={`evolution-row evolution-${progress}`}>
+                    {recipeText(recipe)} → <span style={{ color: into?.iconColor }}>{into?.name ?? recipe.into}</span>
+                    <span className="evolution-progress">{EVOLUTION_PROGRESS[progress]}</span>
+                </div>
+            );
+        })}
+    </div>
+);
+
+// One artifact's numbers as resolved in its spell group
+const renderSpellPreview = (preview: CastPreview) => {
+    const conf = preview.card.artifactConfig!;
+    const countLabel = conf.projectileType === 'orbit' ? '护卫' : isLightning(conf) ? '连锁' : '弹数';
+    return (
+        <div key={preview.card.id} className="spell-preview-line">
+            <span style={{ color: preview.card.iconColor, fontWeight: 'bold' }}>{preview.card.name}</span>
+            {conf.projectileType !== 'pull_screen' && <span>{countLabel} {preview.projectiles}</span>}
+            <span>施放 ×{preview.casts}</span>
+            <span>射程 ×{preview.rangeMult.toFixed(2)}</span>
+            <span>冷却 {preview.cooldown === null ? '常驻' : `${(preview.cooldown / TICKS_PER_SECOND).toFixed(2)}秒`}</span>
+            {preview.echoOf && <span>复制 {preview.echoOf.name} ×{preview.echoes}</span>}
+        </div>
+    );
+};
+
 const Joystick = ({ onMove }: { onMove: (x: number, y: number) => void }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const knobRef = useRef<HTMLDivElement>(null);
@@ -215,10 +344,17 @@ const App = () => {
 
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [waveInfo, setWaveInfo] = useState({ wave: 1, enemiesLeft: 0 });
   const [levelUpOptions, setLevelUpOptions] = useState<CardDef[]>([]);
   const [bossWarning, setBossWarning] = useState<string | null>(null);
   const [aimStatus, setAimStatus] = useState<string>("自动");
   const [isGmMode, setIsGmMode] = useState(false);
+  const [isReplay, setIsReplay] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [waveScriptId, setWaveScriptId] = useState(DEFAULT_WAVE_SCRIPT);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [savedRun] = useState<SaveFile | null>(() => readSave());
+  const [damageReport, setDamageReport] = useState<{ report: DamageReport; gameTime: number } | null>(null);
   
   // Layout State for Spell Board persistence
   const [layoutMap, setLayoutMap] = useState<{[id: string]: number}>({});
@@ -226,6 +362,11 @@ const App = () => {
 
   // Hover state for inventory details
   const [hoveredCard, setHoveredCard] = useState<CardDef | null>(null);
+  const [hoveredReach, setHoveredReach] = useState<CastPreview[]>([]);
+  const handleHover = (card: CardDef | null, reached: CastPreview[]) => {
+      setHoveredCard(card);
+      setHoveredReach(reached);
+  };
 
   useEffect(() => {
      window.gm = () => {
@@ -239,32 +380,25 @@ const App = () => {
     
     if (engineRef.current) return;
 
-    const engine = new GameEngine(
-      canvasRef.current,
-      (newStats) => setStats({...newStats}), 
-      (newState) => {
-          setGameState(newState);
-          if (newState === GameState.LEVEL_UP) {
-              const wave = engineRef.current?.wave || 1;
-              const inv = engineRef.current?.stats.inventory || [];
-              const opts: CardDef[] = [];
-              
-              for(let i=0; i<3; i++) {
-                  const card = getRandomCard(wave, inv, opts); 
-                  opts.push(card);
-              }
-              
-              setLevelUpOptions(opts);
-          }
-      },
-      (name) => {
-          setBossWarning(name);
-          setTimeout(() => setBossWarning(null), 3000);
-      },
-      (isAuto) => {
-          setAimStatus(isAuto ? "自动" : "手动");
-      }
-    );
+    const engine = new GameEngine(canvasRef.current);
+    engine.events.on('statsUpdated', ({ stats, wave, enemiesLeft }) => {
+        setStats(stats);
+        setWaveInfo({ wave, enemiesLeft });
+    });
+    engine.events.on('stateChanged', ({ state }) => setGameState(state));
+    // Offers are rolled by the engine from the seeded run
+    engine.events.on('levelUp', ({ options }) => setLevelUpOptions(options));
+    engine.events.on('bossWarning', ({ name }) => {
+        setBossWarning(name);
+        setTimeout(() => setBossWarning(null), 3000);
+    });
+    // Scripted wave messages share the banner
+    engine.events.on('waveMessage', ({ text }) => {
+        setBossWarning(text);
+        setTimeout(() => setBossWarning(null), 3000);
+    });
+    engine.events.on('damageReport', (payload) => setDamageReport(payload));
+    engine.events.on('aimChanged', ({ isAuto }) => setAimStatus(isAuto ? "自动" : "手动"));
     engineRef.current = engine;
     
     const initEngine = async () => {
@@ -286,28 +420,58 @@ const App = () => {
   }, []);
 
   const startGame = (mapType: MapType) => {
-    engineRef.current?.start(mapType);
+    setIsReplay(false);
+    engineRef.current?.start(mapType, randomSeed(), waveScriptId);
+  };
+
+  const continueGame = () => {
+    if (!savedRun || !engineRef.current) return;
+    setIsReplay(false);
+    setLayoutMap(savedRun.layout.layoutMap);
+    setRowCount(savedRun.layout.rowCount);
+    engineRef.current.resumeRun(savedRun);
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow picking the same file again
+      if (!file || !engineRef.current) return;
+      try {
+          const replay = parseReplay(await file.text());
+          setReplayError(null);
+          setIsReplay(true);
+          engineRef.current.startReplay(replay);
+      } catch (err: any) {
+          setReplayError(err.message);
+      }
+  };
+
+  const exportReplay = () => {
+      const replay = engineRef.current?.exportReplay();
+      if (!replay) return;
+      const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `replay-${replay.seed}-${replay.ticks}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
   };
 
   const selectCardForInventory = (card: CardDef) => {
-    // Clone to ensure unique ID if added from GM mode multiple times
-    const newCard = { ...card, id: Math.random().toString(36).substr(2, 9) };
-    engineRef.current?.addCard(newCard);
-    
+    if (isReplay) return; // Picks come from the replay file
     if (gameState === GameState.LEVEL_UP) {
-        engineRef.current?.resume();
+        // Level-up offers already carry a seeded unique ID
+        engineRef.current?.pickLevelUpCard(card);
         setGameState(GameState.PLAYING);
     } else {
-        // GM Mode update stats immediately
-        if (engineRef.current) {
-           setStats({ ...engineRef.current.stats });
-        }
+        // Clone to ensure unique ID if added from GM mode multiple times
+        engineRef.current?.addCard(instantiateCard(card, Math.random().toString(36).substr(2, 9)));
     }
   };
 
   const gmRemoveCard = (index: number) => {
       engineRef.current?.debugRemoveCard(index);
-      if (engineRef.current) setStats({ ...engineRef.current.stats });
   };
 
   const gmSetWave = (e: any) => {
@@ -317,14 +481,15 @@ const App = () => {
       }
   };
 
-  const handleResume = () => {
+  // Hands the SpellBoard arrangement to the engine
+  const commitSpellBoard = () => {
       if (spellBoardRef.current && stats && engineRef.current) {
           const { newOrder, newLayoutMap } = spellBoardRef.current.getLayoutData();
           
           // Save UI layout persistence
           setLayoutMap(newLayoutMap);
 
-          // Reconstruct inventory based on IDs for the engine logic (linear execution)
+          // Reconstruct inventory based on IDs; the engine casts each row as its own group
           const map = new Map(stats.inventory.map(c => [c.id, c]));
           const newInventory = newOrder.map((id: string) => map.get(id)).filter(Boolean) as CardDef[];
           
@@ -333,15 +498,30 @@ const App = () => {
           const missing = stats.inventory.filter(c => !currentIds.has(c.id));
           const finalInventory = [...newInventory, ...missing];
           
-          engineRef.current.reorderInventory(finalInventory);
-          setStats({ ...engineRef.current.stats });
+          engineRef.current.reorderInventory(finalInventory, { layoutMap: newLayoutMap, rowCount });
       }
+  };
 
+  const handleResume = () => {
+      commitSpellBoard();
       setGameState(GameState.PLAYING);
       engineRef.current?.resume();
       setHoveredCard(null);
   };
 
+  // Keep what was dragged so far, the fused card then lands where the first copy is
+  const handleFuse = (copies: CardDef[]) => {
+      if (isReplay) return;
+      commitSpellBoard();
+      engineRef.current?.fuseCards(copies);
+      setHoveredCard(null);
+  };
+
+  // Offered artifacts the player already has level that one up
+  const ownedArtifact = (card: CardDef) => card.type === CardType.ARTIFACT
+      ? stats?.inventory.find(c => c.type === CardType.ARTIFACT && c.name === card.name)
+      : undefined;
+
   const handleJoystickMove = (x: number, y: number) => {
       if (engineRef.current) {
           engineRef.current.setJoystick(x, y);
@@ -350,7 +530,7 @@ const App = () => {
 
   const handlePause = () => {
       if (gameState === GameState.PLAYING) {
-          setGameState(GameState.PAUSED);
+          engineRef.current?.pause();
       }
   };
   
@@ -367,12 +547,39 @@ const App = () => {
         <div className="absolute inset-0 overlay-bg flex flex-col items-center justify-center gap-6 z-50">
           <h1 className="menu-title mb-8">元素幸存者</h1>
           <div className="flex flex-col gap-4">
+            {/* Only shown once waves/ holds more than the built-in script */}
+            {WAVE_SCRIPTS.size > 1 && (
+              <select value={waveScriptId} onChange={e => setWaveScriptId(e.target.value)} className="btn">
+                {[...WAVE_SCRIPTS.values()].map(script => (
+                  <option key={script.id} value={script.id}>{script.name}</option>
+                ))}
+              </select>
+            )}
+            {savedRun && (
+              <button onClick={continueGame} className="btn btn-continue">
+                继续游戏 (WAVE {savedRun.run.wave})
+              </button>
+            )}
             <button 
               onClick={() => startGame(MapType.FIXED)}
               className="btn btn-fixed"
             >
-              开始游戏
+              竞技场模式
+            </button>
+            <button 
+              onClick={() => startGame(MapType.INFINITE)}
+              className="btn btn-infinite"
+            >
+              无尽模式
+            </button>
+            <button 
+              onClick={() => replayInputRef.current?.click()}
+              className="btn"
+            >
+              观看回放
             </button>
+            <input ref={replayInputRef} type="file" accept=".json,application/json" style={{ display: 'none' }} onChange={handleReplayFile} />
+            {replayError && <div className="replay-error">{replayError}</div>}
           </div>
           <div className="instructions mt-8 text-center">
             点击地面或使用摇杆移动.<br/>
@@ -395,7 +602,7 @@ const App = () => {
 
            {/* Aim Status */}
            <div className="aim-status">
-               瞄准: {aimStatus} [A]
+               {isReplay ? '回放中' : <>瞄准: {aimStatus} [A]</>}
            </div>
 
            {/* HP Bar */}
@@ -422,11 +629,9 @@ const App = () => {
 
            {/* Wave Info */}
            <div className="wave-info">
-             <div className="wave-title">WAVE {engineRef.current?.wave}</div>
+             <div className="wave-title">WAVE {waveInfo.wave}</div>
              <div className="wave-timer">
-                Left: {engineRef.current?.waveTotalEnemies && engineRef.current.waveEnemiesSpawned !== undefined 
-                  ? Math.max(0, engineRef.current.waveTotalEnemies - engineRef.current.waveEnemiesSpawned + engineRef.current.enemies.length)
-                  : 0}
+                Left: {waveInfo.enemiesLeft}
              </div>
            </div>
         </div>
@@ -446,7 +651,7 @@ const App = () => {
               <h2 className="menu-title text-2xl">
                   {gameState === GameState.PAUSED ? "已暂停" : 
                    gameState === GameState.LEVEL_UP ? "升级!" : 
-                   gameState === GameState.GAME_OVER ? "游戏结束" : "胜利!"}
+                   gameState === GameState.GAME_OVER ? (isReplay ? "回放结束" : "游戏结束") : "胜利!"}
               </h2>
 
               {/* Spell Board for Inventory Management */}
@@ -457,12 +662,21 @@ const App = () => {
                         ref={spellBoardRef}
                         items={stats.inventory}
                         layoutMap={layoutMap}
-                        onHover={setHoveredCard}
+                        onHover={handleHover}
                         rowCount={rowCount}
                       />
                       <button onClick={handleAddRow} className="mt-4 px-3 py-1 bg-gray-700 text-sm text-gray-300 rounded hover:bg-gray-600 border border-gray-500">
                          + 添加法术组
                       </button>
+                      {!isReplay && findFusions(stats.inventory).map(copies => {
+                          const result = fusionResult(copies);
+                          return result && (
+                              <button key={copies[0].id} onClick={() => handleFuse(copies)} className="fusion-btn">
+                                  合成: {copies[0].name}{levelTag(copies[0])} ×{FUSION_COPIES} → <span style={{ color: result.iconColor }}>{result.name}{levelTag(result)}</span>
+                              </button>
+                          );
+                      })}
+                      {ALL_EVOLUTIONS.length > 0 && <EvolutionList inventory={stats.inventory} layoutMap={layoutMap} rowCount={rowCount} />}
                   </div>
               )}
 
@@ -471,9 +685,19 @@ const App = () => {
                   <div className="card-detail-tooltip">
                       <div className="font-bold text-lg" style={{color: hoveredCard.iconColor}}>{hoveredCard.name}</div>
                       <div className="text-sm text-white/80">{hoveredCard.description}</div>
+                      {hoveredCard.type !== CardType.STAT && (
+                          <div className="spell-preview">
+                              {hoveredReach.length === 0 && <div className="spell-preview-none">不影响任何法宝</div>}
+                              {hoveredReach.map(renderSpellPreview)}
+                          </div>
+                      )}
                   </div>
               )}
 
+              {damageReport && gameState !== GameState.LEVEL_UP && (
+                  <DamageReportPanel report={damageReport.report} gameTime={damageReport.gameTime} />
+              )}
+
               {/* Actions */}
               <div className="flex flex-wrap justify-center gap-4 mt-4">
                   {gameState === GameState.PAUSED && (
@@ -491,10 +715,16 @@ const App = () => {
                         </div>
                         <h3 className="card-name mb-2" style={{ color: card.iconColor }}>{card.name}</h3>
                         <p className="card-desc">{card.description}</p>
+                        {ownedArtifact(card) && <div className="card-level-up">升级 → Lv{cardLevel(ownedArtifact(card)!) + 1}</div>}
+                        {card.evolved && findEvolution(card) && <div className="card-evolution">进化: {recipeText(findEvolution(card)!)}</div>}
                         <div className="card-type">{card.type}</div>
                       </div>
                   ))}
 
+                  {!isReplay && engineRef.current?.isRecording && gameState !== GameState.LEVEL_UP && (
+                      <button className="btn" onClick={exportReplay}>导出回放</button>
+                  )}
+
                   {(gameState === GameState.GAME_OVER || gameState === GameState.VICTORY) && (
                       <button className="btn btn-danger" onClick={() => window.location.reload()}>返回主菜单</button>
                   )}
@@ -521,6 +751,12 @@ const App = () => {
                                </button>
                            ))}
                       </div>
+                      <div className="mt-2 text-xs">Pools (reused / misses / discarded / idle):</div>
+                      <div className="text-xs font-mono">
+                          {engineRef.current?.renderer.poolStats().map(st => (
+                              <div key={st.name}>{st.name}: {st.reused} / {st.misses} / {st.discarded} / {st.idle}</div>
+                          ))}
+                      </div>
                   </div>
               )}
           </div>
@@ -0,0 +1,51 @@
+
+// --- Elite Affixes ---
+// Elites are regular enemies with one or more affixes. Each affix is plain data below and
+// the simulation only reads the fields, so affixes stack without knowing about each other:
+// multipliers multiply, amounts add up, every death effect happens. An elite carries its
+// affix ids, so it goes into saves as it is.
+
+export type AffixId = 'armored' | 'hasted' | 'splitting' | 'regenerating' | 'warded' | 'vampiric' | 'explosive';
+
+export interface AffixDef {
+    name: string;         // On the name plate
+    color: number;        // Aura
+    hpMult?: number;
+    damageTaken?: number; // Multiplies the damage of every hit
+    speedMult?: number;
+    regen?: number;       // Share of max hp healed per tick
+    lifesteal?: number;   // Share of max hp healed per hit landed on the player
+    warded?: boolean;     // Immune to one element, picked at spawn
+    split?: number;       // Smaller, plain copies left behind on death
+    // Goes off where it died after a telegraphed `warmup`; damage grows by perWave each wave
+    explode?: { radius: number; warmup: number; damage: number; perWave: number };
+}
+
+export const AFFIX_DEFS: Record<AffixId, AffixDef> = {
+    armored: { name: '铁甲', color: 0x9ca3af, damageTaken: 0.5 },
+    hasted: { name: '疾行', color: 0x22d3ee, speedMult: 1.6 },
+    splitting: { name: '分裂', color: 0x84cc16, split: 3 },
+    regenerating: { name: '再生', color: 0x4ade80, regen: 0.001, hpMult: 1.2 },
+    warded: { name: '护元', color: 0xa78bfa, warded: true },
+    vampiric: { name: '吸血', color: 0xdc2626, lifesteal: 0.15, hpMult: 1.2 },
+    explosive: { name: '自爆', color: 0xf97316, explode: { radius: 70, warmup: 40, damage: 10, perWave: 0.5 } }
+};
+
+export const AFFIX_IDS = Object.keys(AFFIX_DEFS) as AffixId[];
+
+// On top of the affixes: every elite is tougher, bigger and drops more
+export const ELITE_HP = 3;
+export const ELITE_SCALE = 1.3;
+export const ELITE_LOOT_BONUS = 40;   // Added to the XP tier roll, per orb
+export const WAVES_PER_AFFIX = 30;    // One affix, one more every this many waves...
+export const MAX_AFFIXES = 3;         // ...up to this
+export const SPLIT_CHILD_SCALE = 0.7;
+export const SPLIT_CHILD_HP = 0.5;    // Of a plain enemy of the wave
+
+export const affixProduct = (affixes: AffixId[] | undefined, field: 'hpMult' | 'damageTaken' | 'speedMult') =>
+    (affixes ?? []).reduce((m, id) => m * (AFFIX_DEFS[id][field] ?? 1), 1);
+
+export const affixSum = (affixes: AffixId[] | undefined, field: 'regen' | 'lifesteal' | 'split') =>
+    (affixes ?? []).reduce((sum, id) => sum + (AFFIX_DEFS[id][field] ?? 0), 0);
+
+export const affixPlate = (affixes: AffixId[]) => affixes.map(id => AFFIX_DEFS[id].name).join('·');
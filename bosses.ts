@@ -0,0 +1,85 @@
+
+import { ElementType } from './types';
+
+// --- Bosses ---
+// Which wave brings which boss is up to the wave script (see waves/), an Entity keeps the
+// index into BOSS_DEFS as its bossType. Each walks, looks and attacks its own way, and every
+// attack is telegraphed: the boss winds up for `windup` ticks first, with the landing spot of
+// slams and blinks marked on the ground, so it can be read and dodged.
+
+export type BossAttack =
+    | 'charge'  // Rushes at where the player stood
+    | 'summon'  // Calls a ring of minions
+    | 'radial'  // Fires a ring of shots
+    | 'blink'   // Vanishes and lands next to the player with a slam
+    | 'dash'    // Several quick rushes, re-aiming each time
+    | 'split'   // Lunges; splits in two when killed
+    | 'shield'  // Raises a shield that soaks most damage
+    | 'attune'  // Becomes immune to the next element, with a ring of shots
+    | 'slam'    // Ground slam where the player stood
+    | 'spiral'; // Turning arms of shots, bullet-hell style
+
+export interface BossDef {
+    id: string;      // What wave scripts call it (see waves.ts)
+    name: string;    // Named in the warning when it arrives
+    title: string;
+    attack: BossAttack;
+    shape: string;   // Drawn by the renderer
+    color: number;
+    accent: number;
+    speed: number;   // Walk speed, 1 is a slime's
+    cooldown: number; // Ticks between attacks, a tick less per wave, never under BOSS_MIN_COOLDOWN
+    windup: number;   // Telegraph ticks before the attack lands
+}
+
+export const BOSS_DEFS: BossDef[] = [
+    { id: 'hydra', name: '九头虫', title: '万箭旋涡', attack: 'spiral', shape: 'hydra', color: 0x7c3aed, accent: 0xf472b6, speed: 0.4, cooldown: 240, windup: 50 },
+    { id: 'bull', name: '牛魔王', title: '蛮牛冲撞', attack: 'charge', shape: 'brute', color: 0xb91c1c, accent: 0xfacc15, speed: 0.5, cooldown: 150, windup: 45 },
+    { id: 'yellowbrow', name: '黄眉大王', title: '召唤妖兵', attack: 'summon', shape: 'monk', color: 0xca8a04, accent: 0xfef08a, speed: 0.35, cooldown: 300, windup: 60 },
+    { id: 'yellowwind', name: '黄风怪', title: '三昧神风', attack: 'radial', shape: 'gale', color: 0xd97706, accent: 0xa5f3fc, speed: 0.5, cooldown: 150, windup: 40 },
+    { id: 'bonedemon', name: '白骨夫人', title: '瞬身偷袭', attack: 'blink', shape: 'wraith', color: 0xe5e7eb, accent: 0x6b21a8, speed: 0.45, cooldown: 200, windup: 50 },
+    { id: 'nezha', name: '哪吒', title: '火尖枪连刺', attack: 'dash', shape: 'spear', color: 0xef4444, accent: 0xfb923c, speed: 0.5, cooldown: 200, windup: 30 },
+    { id: 'sixears', name: '六耳猕猴', title: '分身', attack: 'split', shape: 'ape', color: 0x78716c, accent: 0xfde047, speed: 0.6, cooldown: 120, windup: 30 },
+    { id: 'goldarmor', name: '金甲神', title: '金钟罩', attack: 'shield', shape: 'armor', color: 0xeab308, accent: 0xfffbeb, speed: 0.4, cooldown: 360, windup: 40 },
+    { id: 'chaos', name: '混世魔王', title: '五行不侵', attack: 'attune', shape: 'prism', color: 0x334155, accent: 0xffffff, speed: 0.5, cooldown: 300, windup: 40 },
+    { id: 'giant', name: '巨灵神', title: '开山巨锤', attack: 'slam', shape: 'giant', color: 0x1e3a8a, accent: 0x93c5fd, speed: 0.35, cooldown: 180, windup: 70 }
+];
+
+export const BOSS_MIN_COOLDOWN = 30;
+
+export const CHARGE_SPEED = 18;
+export const DASH_SPEED = 12;
+export const DASH_COUNT = 3;
+export const DASH_GAP = 20;         // Ticks between dashes
+export const LUNGE_SPEED = 5;
+export const SUMMON_COUNT = 4;      // Plus one per 25 waves
+export const SUMMON_RING = 70;
+export const RADIAL_SHOTS = 16;
+export const SPIRAL_ARMS = 3;
+export const SPIRAL_VOLLEYS = 24;   // One shot per arm every SPIRAL_GAP ticks
+export const SPIRAL_GAP = 3;
+export const SPIRAL_TURN = 0.25;    // Radians the arms turn per volley
+export const SHOT_SPEED = 3;
+export const SHOT_LIFE = 240;
+export const SHOT_RADIUS = 6;
+export const SLAM_RADIUS = 110;
+export const BLINK_RANGE = 140;     // Lands this far from the player, at most
+export const BLINK_SLAM_RADIUS = 80;
+export const SHIELD_DURATION = 180;
+export const SHIELD_DAMAGE_TAKEN = 0.2;
+export const SPLIT_GENERATIONS = 2; // The boss, its halves, their halves
+export const SPLIT_HP = 0.4;        // Of the parent's max hp, per half
+export const SPLIT_SCALE = 0.75;
+
+// What the attuning boss shrugs off, in turn; the first is where it starts
+export const ATTUNE_CYCLE: { element: ElementType, name: string, color: number }[] = [
+    { element: ElementType.FIRE, name: '火', color: 0xff4500 },
+    { element: ElementType.WATER, name: '水', color: 0x00bfff },
+    { element: ElementType.LIGHTNING, name: '金雷', color: 0xffd700 },
+    { element: ElementType.WIND, name: '风', color: 0xa5f3fc },
+    { element: ElementType.LIGHTNING_BLUE, name: '蓝雷', color: 0x00ffff }
+];
+
+export const bossDef = (bossType: number | undefined): BossDef => BOSS_DEFS[bossType ?? 0] ?? BOSS_DEFS[0];
+
+export const findBossType = (id: string): number => BOSS_DEFS.findIndex(b => b.id === id);
@@ -0,0 +1,242 @@
+
+import { CardDef, CardType, ElementType, Rarity } from './types';
+import { EvolutionRecipe } from './evolutions';
+import { MAX_CARD_LEVEL } from './fusion';
+import { STATUS_NAMES, isStatusName } from './statuses';
+
+// --- Card Packs ---
+// Cards are data: JSON packs in cards/ are checked here against the CardDef shape and
+// turned into real CardDefs. Enum fields use their names ("FIRE", "ARTIFACT"), colours
+// are "#rrggbb" strings. Every problem in a pack is reported at once, with its path.
+// A pack can also list evolution recipes (see evolutions.ts) under "evolutions".
+
+type ArtifactConfig = NonNullable<CardDef['artifactConfig']>;
+type EffectConfig = NonNullable<CardDef['effectConfig']>;
+
+// Records, so adding a value to the type without listing it here fails to compile
+const PROJECTILE_TYPES: Record<ArtifactConfig['projectileType'], true> = {
+    projectile: true, beam: true, area: true, orbit: true, lightning: true,
+    stream: true, minion: true, water_snake: true, pull_screen: true
+};
+const EFFECT_LOGICS: Record<EffectConfig['logic'], true> = {
+    split_back: true, reverse: true, double: true, ignore: true, ring: true, fan: true,
+    line: true, track: true, copy: true, wobble: true, giant: true
+};
+
+const CONFIG_FIELDS: { [K in keyof typeof CardType]: keyof CardDef } = {
+    STAT: 'statBonus',
+    ARTIFACT: 'artifactConfig',
+    BUFF: 'buffConfig',
+    EFFECT: 'effectConfig'
+};
+
+const CARD_FIELDS = ['id', 'name', 'description', 'type', 'rarity', 'iconColor', 'fusesInto', 'evolved', 'statBonus', 'artifactConfig', 'buffConfig', 'effectConfig'];
+const EVOLUTION_FIELDS = ['id', 'artifact', 'with', 'level', 'into'];
+
+// iconColor is optional in packs, the registry fills in the rarity colour; levels belong to instances
+export type PackCard = Omit<CardDef, 'iconColor' | 'level'> & { iconColor?: string };
+
+export interface CardPack {
+    cards: PackCard[];
+    evolutions: EvolutionRecipe[];
+}
+
+export class CardPackError extends Error {
+    readonly problems: string[];
+
+    constructor(source: string, problems: string[]) {
+        super(`Card pack ${source} is invalid:\n  ${problems.join('\n  ')}`);
+        this.name = 'CardPackError';
+        this.problems = problems;
+    }
+}
+
+const enumNames = (e: object) => Object.keys(e).filter(k => isNaN(Number(k)));
+const oneOf = (values: string[]) => values.map(v => `"${v}"`).join(', ');
+const has = (o: object, key: unknown) => typeof key === 'string' && Object.prototype.hasOwnProperty.call(o, key);
+const isObject = (v: unknown): v is { [key: string]: any } => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Names only, the reverse enum mapping would also accept "0"
+const parseElement = (v: unknown): ElementType | undefined =>
+    typeof v === 'string' && enumNames(ElementType).includes(v) ? ElementType[v as keyof typeof ElementType] : undefined;
+
+const parseColor = (v: unknown): number | null => {
+    if (typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= 0xffffff) return v;
+    if (typeof v === 'string' && /^#[0-9a-fA-F]{6}$/.test(v)) return parseInt(v.slice(1), 16);
+    return null;
+};
+
+// Checks one card and converts enum names / colours; problems are pushed, not thrown
+const parseCard = (raw: unknown, path: string, problems: string[]): PackCard | null => {
+    if (!isObject(raw)) {
+        problems.push(`${path}: expected an object`);
+        return null;
+    }
+    const at = typeof raw.id === 'string' ? `${path} (${raw.id})` : path;
+    const before = problems.length;
+    const fail = (msg: string) => problems.push(`${at}: ${msg}`);
+
+    Object.keys(raw).filter(k => !CARD_FIELDS.includes(k)).forEach(k => fail(`unknown field "${k}"`));
+
+    for (const field of ['id', 'name', 'description'] as const) {
+        if (typeof raw[field] !== 'string' || raw[field] === '') fail(`"${field}" must be a non-empty string`);
+    }
+    if (raw.iconColor !== undefined && typeof raw.iconColor !== 'string') fail(`"iconColor" must be a CSS colour string`);
+    if (raw.fusesInto !== undefined) {
+        if (typeof raw.fusesInto !== 'string' || raw.fusesInto === '') fail(`"fusesInto" must be a card id`);
+        else if (raw.type !== 'EFFECT' && raw.type !== 'BUFF') fail(`"fusesInto" only works on EFFECT and BUFF cards`);
+    }
+    if (raw.evolved !== undefined) {
+        if (typeof raw.evolved !== 'boolean') fail(`"evolved" must be true or false`);
+        else if (raw.type !== 'ARTIFACT') fail(`"evolved" only works on ARTIFACT cards`);
+    }
+
+    const typeName = raw.type as keyof typeof CardType;
+    if (!has(CONFIG_FIELDS, typeName)) {
+        fail(`unknown type "${raw.type}" (expected one of ${oneOf(enumNames(CardType))})`);
+    }
+    const rarities = Object.values(Rarity) as string[];
+    if (!rarities.includes(raw.rarity)) {
+        fail(`unknown rarity "${raw.rarity}" (expected one of ${oneOf(rarities)})`);
+    }
+
+    // Exactly the config block that matches the type
+    const configField = has(CONFIG_FIELDS, typeName) ? CONFIG_FIELDS[typeName] : undefined;
+    Object.values(CONFIG_FIELDS).forEach(field => {
+        if (field !== configField && raw[field] !== undefined) fail(`"${field}" does not belong on ${raw.type} cards`);
+    });
+    const config = configField ? raw[configField] : undefined;
+    if (configField && !isObject(config)) {
+        fail(`${raw.type} cards need a "${configField}" object`);
+    }
+
+    const card: any = { ...raw };
+    if (configField && isObject(config)) {
+        const cfgFail = (msg: string) => fail(`${configField}.${msg}`);
+        const checkNumbers = (allowed: string[], fields: { [key: string]: any } = config) => {
+            Object.keys(fields).forEach(k => {
+                if (!allowed.includes(k)) cfgFail(`${k}: unknown field (expected one of ${oneOf(allowed)})`);
+                else if (typeof fields[k] !== 'number' || !isFinite(fields[k])) cfgFail(`${k}: must be a number`);
+            });
+        };
+
+        if (typeName === 'STAT') checkNumbers(['hpPercent', 'dmgPercent', 'pickupPercent']);
+        if (typeName === 'BUFF') {
+            // element and scope aside, every field is an amount
+            const { element: elementName, scope, ...amounts } = config;
+            checkNumbers(['range', 'speed', 'frequency', 'duration', 'damage', 'pierce', 'element', 'scope'], amounts);
+            if (scope !== undefined && scope !== 'group' && !(Number.isInteger(scope) && scope >= 1)) {
+                cfgFail(`scope: must be a whole number, 1 or more, or "group"`);
+            }
+            if (amounts.pierce !== undefined && !(Number.isInteger(amounts.pierce) && amounts.pierce >= 1)) {
+                cfgFail(`pierce: must be a whole number, 1 or more`);
+            }
+            if (elementName !== undefined) {
+                const element = parseElement(elementName);
+                if (element === undefined) cfgFail(`element: unknown element "${elementName}" (expected one of ${oneOf(enumNames(ElementType))})`);
+                card.buffConfig = { ...config, element };
+            }
+        }
+
+        if (typeName === 'ARTIFACT') {
+            const element = parseElement(config.element);
+            const color = parseColor(config.color);
+            if (typeof config.cooldown !== 'number' || config.cooldown <= 0) cfgFail(`cooldown: must be a number above 0`);
+            if (typeof config.baseDamage !== 'number' || config.baseDamage < 0) cfgFail(`baseDamage: must be a number, 0 or more`);
+            if (element === undefined) {
+                cfgFail(`element: unknown element "${config.element}" (expected one of ${oneOf(enumNames(ElementType))})`);
+            }
+            if (!has(PROJECTILE_TYPES, config.projectileType)) {
+                cfgFail(`projectileType: unknown projectileType "${config.projectileType}" (expected one of ${oneOf(Object.keys(PROJECTILE_TYPES))})`);
+            }
+            if (color === null) cfgFail(`color: must be "#rrggbb"`);
+            if (config.inflicts !== undefined && (!Array.isArray(config.inflicts) || !config.inflicts.every(isStatusName))) {
+                cfgFail(`inflicts: must be a list of statuses (${oneOf(STATUS_NAMES)})`);
+            }
+            if (config.splash !== undefined) {
+                if (!isObject(config.splash)) cfgFail(`splash: must be { "radius": ..., "share": ... }`);
+                else {
+                    checkNumbers(['radius', 'share'], config.splash);
+                    if (!(config.splash.radius > 0) || !(config.splash.share > 0)) cfgFail(`splash: radius and share must be above 0`);
+                }
+            }
+            const aura = config.aura === undefined ? undefined : parseColor(config.aura);
+            if (aura === null) cfgFail(`aura: must be "#rrggbb"`);
+            card.artifactConfig = { ...config, element, color };
+            if (aura !== undefined && aura !== null) card.artifactConfig.aura = aura;
+        }
+
+        if (typeName === 'EFFECT') {
+            if (!has(EFFECT_LOGICS, config.logic)) {
+                cfgFail(`logic: unknown logic "${config.logic}" (expected one of ${oneOf(Object.keys(EFFECT_LOGICS))})`);
+            }
+            if (!Number.isInteger(config.influenceCount) || config.influenceCount < 1) cfgFail(`influenceCount: must be a whole number, 1 or more`);
+        }
+    }
+
+    if (problems.length > before) return null;
+    card.type = CardType[typeName];
+    return card as PackCard;
+};
+
+const parseEvolution = (raw: unknown, path: string, problems: string[]): EvolutionRecipe | null => {
+    if (!isObject(raw)) {
+        problems.push(`${path}: expected an object`);
+        return null;
+    }
+    const at = typeof raw.id === 'string' ? `${path} (${raw.id})` : path;
+    const before = problems.length;
+    const fail = (msg: string) => problems.push(`${at}: ${msg}`);
+
+    Object.keys(raw).filter(k => !EVOLUTION_FIELDS.includes(k)).forEach(k => fail(`unknown field "${k}"`));
+    for (const field of ['id', 'artifact', 'with', 'into'] as const) {
+        if (typeof raw[field] !== 'string' || raw[field] === '') fail(`"${field}" must be a non-empty string`);
+    }
+    if (!Number.isInteger(raw.level) || raw.level < 1 || raw.level > MAX_CARD_LEVEL) {
+        fail(`"level" must be a whole number from 1 to ${MAX_CARD_LEVEL}`);
+    }
+
+    if (problems.length > before) return null;
+    return { id: raw.id, artifact: raw.artifact, with: raw.with, level: raw.level, into: raw.into };
+};
+
+// Throws CardPackError listing every problem in the pack. Card ids in recipes are checked
+// when the pack is registered, they may point into other packs.
+export const parseCardPack = (data: unknown, source: string): CardPack => {
+    if (!isObject(data) || !Array.isArray(data.cards)) {
+        throw new CardPackError(source, ['expected { "cards": [...] }']);
+    }
+    if (data.evolutions !== undefined && !Array.isArray(data.evolutions)) {
+        throw new CardPackError(source, ['"evolutions" must be a list']);
+    }
+
+    const problems: string[] = [];
+    const seen = new Set<string>();
+    const cards: PackCard[] = [];
+    data.cards.forEach((raw: unknown, i: number) => {
+        const card = parseCard(raw, `cards[${i}]`, problems);
+        if (!card) return;
+        if (seen.has(card.id)) {
+            problems.push(`cards[${i}] (${card.id}): duplicate id in this pack`);
+            return;
+        }
+        seen.add(card.id);
+        cards.push(card);
+    });
+
+    const seenRecipes = new Set<string>();
+    const evolutions: EvolutionRecipe[] = [];
+    (data.evolutions ?? []).forEach((raw: unknown, i: number) => {
+        const recipe = parseEvolution(raw, `evolutions[${i}]`, problems);
+        if (!recipe) return;
+        if (seenRecipes.has(recipe.id)) {
+            problems.push(`evolutions[${i}] (${recipe.id}): duplicate id in this pack`);
+            return;
+        }
+        seenRecipes.add(recipe.id);
+        evolutions.push(recipe);
+    });
+
+    if (problems.length > 0) throw new CardPackError(source, problems);
+    return { cards, evolutions };
+};
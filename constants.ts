@@ -1,8 +1,17 @@
 
-import { CardDef, CardType, ElementType, Rarity } from './types';
+import { CardDef, CardType, Rarity } from './types';
+import { Random } from './rng';
+import { CardPack, CardPackError, parseCardPack } from './cardPacks';
+import { MAX_CARD_LEVEL, cardLevel, levelCard } from './fusion';
+import { EvolutionRecipe } from './evolutions';
+import basePack from './cards/base.json';
 
-export const SCREEN_WIDTH = window.innerWidth;
-export const SCREEN_HEIGHT = window.innerHeight;
+// Bump whenever a change alters simulation results; replays recorded on another version are refused
+export const ENGINE_VERSION = '1.19.0';
+
+// Fallback size lets the simulation load under Node (headless runs never draw)
+export const SCREEN_WIDTH = typeof window !== 'undefined' ? window.innerWidth : 1280;
+export const SCREEN_HEIGHT = typeof window !== 'undefined' ? window.innerHeight : 720;
 
 export const COLORS = {
   UI_BG: '#1a1a2e',
@@ -24,88 +33,67 @@ export const COLORS = {
 };
 
 // --- Card Definitions ---
+// Cards live in JSON packs (cards/*.json, see cardPacks.ts). The base pack is built in;
+// extra packs are registered at startup and add cards or replace ones with the same id.
 
-const generateId = () => Math.random().toString(36).substr(2, 9);
-
-// 1. Stats
-export const STAT_CARDS: CardDef[] = [
-  { id: 'hp_s', name: '生命增强', description: '生命值 +20%', type: CardType.STAT, rarity: Rarity.SILVER, iconColor: COLORS.RARITY_SILVER, statBonus: { hpPercent: 0.2 } },
-  { id: 'hp_g', name: '生命增强 II', description: '生命值 +60%', type: CardType.STAT, rarity: Rarity.GOLD, iconColor: COLORS.RARITY_GOLD, statBonus: { hpPercent: 0.6 } },
-  { id: 'hp_p', name: '不灭金身', description: '生命值 +120%', type: CardType.STAT, rarity: Rarity.PRISMATIC, iconColor: COLORS.RARITY_PRISMATIC, statBonus: { hpPercent: 1.2 } },
-  { id: 'dmg_s', name: '力量增强', description: '伤害 +20%', type: CardType.STAT, rarity: Rarity.SILVER, iconColor: COLORS.RARITY_SILVER, statBonus: { dmgPercent: 0.2 } },
-  { id: 'dmg_g', name: '力量增强 II', description: '伤害 +60%', type: CardType.STAT, rarity: Rarity.GOLD, iconColor: COLORS.RARITY_GOLD, statBonus: { dmgPercent: 0.6 } },
-  { id: 'dmg_p', name: '修罗之力', description: '伤害 +120%', type: CardType.STAT, rarity: Rarity.PRISMATIC, iconColor: COLORS.RARITY_PRISMATIC, statBonus: { dmgPercent: 1.2 } },
-];
-
-// 2. Artifacts (Weapons)
-export const ARTIFACT_CARDS: CardDef[] = [
-  { 
-    id: 'art_fire', name: '火葫芦', description: '喷射等离子烈焰 (受范围影响)', 
-    type: CardType.ARTIFACT, rarity: Rarity.GOLD, iconColor: '#ff4500', 
-    artifactConfig: { cooldown: 20, baseDamage: 4, element: ElementType.FIRE, projectileType: 'area', color: 0xff4500 }
-  },
-  { 
-    id: 'art_wind', name: '风囊', description: '吹飞敌人的风暴 (受数量/范围影响)', 
-    type: CardType.ARTIFACT, rarity: Rarity.SILVER, iconColor: '#88ff88', 
-    artifactConfig: { cooldown: 180, baseDamage: 1, element: ElementType.WIND, projectileType: 'area', color: 0xccffcc }
-  },
-  { 
-    id: 'art_water', name: '白玉神盂', description: '倾倒出蜿蜒的河流', 
-    type: CardType.ARTIFACT, rarity: Rarity.GOLD, iconColor: '#00bfff', 
-    artifactConfig: { cooldown: 15, baseDamage: 4, element: ElementType.WATER, projectileType: 'water_snake', color: 0x00bfff }
-  },
-  { 
-    id: 'art_pull', name: '碧玉瑶光如意', description: '全屏闪烁，强力吸附所有经验', 
-    type: CardType.ARTIFACT, rarity: Rarity.PRISMATIC, iconColor: '#ff00ff', 
-    artifactConfig: { cooldown: 600, baseDamage: 0, element: ElementType.PHYSICAL, projectileType: 'pull_screen', color: 0xff00ff }
-  },
-  { 
-    id: 'art_track', name: '三尖两刃刀', description: '显化二郎真君神兵，自动斩妖', 
-    type: CardType.ARTIFACT, rarity: Rarity.GOLD, iconColor: '#dddddd', 
-    artifactConfig: { cooldown: 30, baseDamage: 20, element: ElementType.PHYSICAL, projectileType: 'minion', color: 0xcccccc }
-  },
-  // Blue Lightning
-  { 
-    id: 'art_wedge', name: '雷公楔', description: '蓝色闪电 (与金色闪电交叉引发雷暴)', 
-    type: CardType.ARTIFACT, rarity: Rarity.GOLD, iconColor: '#2979ff', 
-    artifactConfig: { cooldown: 45, baseDamage: 25, element: ElementType.LIGHTNING_BLUE, projectileType: 'lightning', color: 0x2979ff }
-  },
-  // Yellow Lightning
-  { 
-    id: 'art_mirror', name: '闪电神镜', description: '金色闪电 (与蓝色闪电交叉引发雷暴)', 
-    type: CardType.ARTIFACT, rarity: Rarity.SILVER, iconColor: '#ffd700', 
-    artifactConfig: { cooldown: 45, baseDamage: 20, element: ElementType.LIGHTNING, projectileType: 'lightning', color: 0xffd700 }
-  },
-];
-
-// 3. Effects (The Logic Changers)
-export const EFFECT_CARDS: CardDef[] = [
-  // Multi-cast
-  { id: 'eff_double_g', name: '双重施法', description: '效果组重复触发 +1 (上限4次)', type: CardType.EFFECT, rarity: Rarity.GOLD, iconColor: COLORS.RARITY_GOLD, effectConfig: { logic: 'double', influenceCount: 2 } },
-  
-  { id: 'eff_split_s', name: '回马枪', description: '增加向后发射', type: CardType.EFFECT, rarity: Rarity.SILVER, iconColor: COLORS.RARITY_SILVER, effectConfig: { logic: 'split_back', influenceCount: 1 } },
-  { id: 'eff_fan_p', name: '万箭齐发', description: '变为扇形发射 (数量+4)', type: CardType.EFFECT, rarity: Rarity.PRISMATIC, iconColor: COLORS.RARITY_PRISMATIC, effectConfig: { logic: 'fan', influenceCount: 3 } },
-  { id: 'eff_track_g', name: '御物术', description: '赋予追踪能力', type: CardType.EFFECT, rarity: Rarity.GOLD, iconColor: COLORS.RARITY_GOLD, effectConfig: { logic: 'track', influenceCount: 2 } },
-  
-  { id: 'eff_wobble_s', name: '乱舞', description: '弹道变为波浪形', type: CardType.EFFECT, rarity: Rarity.SILVER, iconColor: COLORS.RARITY_SILVER, effectConfig: { logic: 'wobble', influenceCount: 1 } },
-  { id: 'eff_giant_s', name: '巨大化', description: '体积变大，伤害提升', type: CardType.EFFECT, rarity: Rarity.SILVER, iconColor: COLORS.RARITY_SILVER, effectConfig: { logic: 'giant', influenceCount: 1 } },
-];
+const RARITY_ICON_COLORS: Record<Rarity, string> = {
+  [Rarity.SILVER]: COLORS.RARITY_SILVER,
+  [Rarity.GOLD]: COLORS.RARITY_GOLD,
+  [Rarity.PRISMATIC]: COLORS.RARITY_PRISMATIC
+};
 
-// 4. Buffs (Stat modifiers for next artifact)
-export const BUFF_CARDS: CardDef[] = [
-  { id: 'buff_spd_s', name: '极速', description: '频率 +25%', type: CardType.BUFF, rarity: Rarity.SILVER, iconColor: COLORS.RARITY_SILVER, buffConfig: { frequency: 0.25 } },
-  { id: 'buff_range_g', name: '广域', description: '范围 +50%', type: CardType.BUFF, rarity: Rarity.GOLD, iconColor: COLORS.RARITY_GOLD, buffConfig: { range: 0.5 } },
-];
+// Pool for level-up offers and the GM card list, in pack order
+export const ALL_CARDS: CardDef[] = [];
+// Evolution recipes from every pack, same id replaces (see evolutions.ts)
+export const ALL_EVOLUTIONS: EvolutionRecipe[] = [];
+
+// Recipes may name cards from this pack or any registered before it. Evolved cards also need
+// a name of their own: fusion, level-ups and offers tell cards apart by name.
+const checkEvolutions = (pack: CardPack, source: string) => {
+  const find = (id: string) => pack.cards.find(c => c.id === id) ?? ALL_CARDS.find(c => c.id === id);
+  const problems: string[] = [];
+  pack.evolutions.forEach((recipe, i) => {
+    const at = `evolutions[${i}] (${recipe.id})`;
+    const artifact = find(recipe.artifact);
+    const into = find(recipe.into);
+    if (artifact?.type !== CardType.ARTIFACT || artifact.evolved) problems.push(`${at}: "artifact" must be a regular ARTIFACT card`);
+    if (!find(recipe.with)) problems.push(`${at}: unknown card "${recipe.with}"`);
+    else if (recipe.with === recipe.artifact) problems.push(`${at}: "with" must be another card`);
+    if (into?.type !== CardType.ARTIFACT || !into.evolved) problems.push(`${at}: "into" must be an ARTIFACT card marked "evolved"`);
+  });
+  const cards = [...ALL_CARDS.filter(c => !pack.cards.some(p => p.id === c.id)), ...pack.cards];
+  cards.filter(c => c.evolved).forEach(evolved => {
+    const clash = cards.find(c => c.id !== evolved.id && c.name === evolved.name);
+    if (clash) problems.push(`card ${evolved.id}: evolved cards need a name of their own, "${evolved.name}" is also ${clash.id}`);
+  });
+  if (problems.length > 0) throw new CardPackError(source, problems);
+};
 
+export const registerCardPack = (data: unknown, source: string) => {
+  const pack = parseCardPack(data, source);
+  checkEvolutions(pack, source);
+  pack.cards.forEach(packCard => {
+    const card: CardDef = { ...packCard, iconColor: packCard.iconColor ?? RARITY_ICON_COLORS[packCard.rarity] };
+    const existing = ALL_CARDS.findIndex(c => c.id === card.id);
+    if (existing !== -1) ALL_CARDS[existing] = card;
+    else ALL_CARDS.push(card);
+  });
+  pack.evolutions.forEach(recipe => {
+    const existing = ALL_EVOLUTIONS.findIndex(r => r.id === recipe.id);
+    if (existing !== -1) ALL_EVOLUTIONS[existing] = recipe;
+    else ALL_EVOLUTIONS.push(recipe);
+  });
+};
 
-export const ALL_CARDS = [...STAT_CARDS, ...ARTIFACT_CARDS, ...EFFECT_CARDS, ...BUFF_CARDS];
+registerCardPack(basePack, 'cards/base.json');
 
-export const getRandomCard = (wave: number, currentInventory: CardDef[] = [], excludeList: CardDef[] = []): CardDef => {
+// rng should be the run's gameplay stream so card offers replay with the seed
+export const getRandomCard = (rng: Random, wave: number, currentInventory: CardDef[] = [], excludeList: CardDef[] = []): CardDef => {
     // Rarity weights based on wave
     const prismChance = Math.min(0.2 + (wave / 100) * 10, 15); // 0.2% to 10%
     const goldChance = Math.min(5 + (wave / 100) * 40, 50); // 5% to 45%
     
-    const roll = Math.random() * 100;
+    const roll = rng.next() * 100;
     let targetRarity = Rarity.SILVER;
     if (roll < prismChance) targetRarity = Rarity.PRISMATIC;
     else if (roll < prismChance + goldChance) targetRarity = Rarity.GOLD;
@@ -114,12 +102,15 @@ export const getRandomCard = (wave: number, currentInventory: CardDef[] = [], ex
     const pool = ALL_CARDS.filter(c => {
         // Match Rarity
         if (c.rarity !== targetRarity) return false;
+
+        // Evolved artifacts are only offered through their recipe
+        if (c.evolved) return false;
         
-        // Prevent Duplicate Artifacts in Inventory
+        // Owned artifacts come again as level-ups, until they are maxed out
         if (c.type === CardType.ARTIFACT) {
             // Check by NAME not ID
-            const alreadyHas = currentInventory.some(invItem => invItem.name === c.name);
-            if (alreadyHas) return false;
+            const maxedOut = currentInventory.some(invItem => invItem.name === c.name && cardLevel(invItem) >= MAX_CARD_LEVEL);
+            if (maxedOut) return false;
         }
 
         // Prevent Duplicates in current selection options (Exclude List)
@@ -133,12 +124,48 @@ export const getRandomCard = (wave: number, currentInventory: CardDef[] = [], ex
     let finalPool = pool;
     if (finalPool.length === 0) {
         // If we ran out of cards for this rarity, fallback to ANY card of that rarity, or Stat cards
-         finalPool = STAT_CARDS.filter(c => !excludeList.some(ex => ex.name === c.name)); 
-        if (finalPool.length === 0) finalPool = STAT_CARDS;
+         const statCards = ALL_CARDS.filter(c => c.type === CardType.STAT);
+         finalPool = statCards.filter(c => !excludeList.some(ex => ex.name === c.name)); 
+        if (finalPool.length === 0) finalPool = statCards;
     }
 
-    const template = finalPool[Math.floor(Math.random() * finalPool.length)];
+    const template = rng.pick(finalPool);
     
     // Return a copy with unique ID
-    return { ...template, id: generateId() };
+    return instantiateCard(template, rng.id());
 }
+
+// Copy of a catalogue card under its own instance id
+export const instantiateCard = (template: CardDef, id: string, level = 1): CardDef => ({
+    ...levelCard(template, level),
+    templateId: template.templateId ?? template.id,
+    id
+});
+
+export const findCardTemplate = (templateId: string): CardDef | undefined =>
+    ALL_CARDS.find(c => c.id === templateId);
+
+// The same card one level up under the same instance id; null when maxed out or not in the catalogue
+export const nextLevelCard = (card: CardDef): CardDef | null => {
+    const template = findCardTemplate(card.templateId ?? card.id);
+    if (!template || cardLevel(card) >= MAX_CARD_LEVEL) return null;
+    return instantiateCard(template, card.id, cardLevel(card) + 1);
+};
+
+// What a set of copies fuses into (see fusion.ts). It takes over the first copy's id,
+// and with it that copy's place on the SpellBoard.
+export const fusionResult = (copies: CardDef[]): CardDef | null => {
+    const first = copies[0];
+    const counterpart = first.fusesInto ? findCardTemplate(first.fusesInto) : undefined;
+    return counterpart ? instantiateCard(counterpart, first.id) : nextLevelCard(first);
+};
+
+// The evolved card, taking over the artifact's id and with it its place on the SpellBoard
+export const evolutionResult = (artifact: CardDef, recipe: EvolutionRecipe): CardDef | null => {
+    const template = findCardTemplate(recipe.into);
+    return template ? instantiateCard(template, artifact.id) : null;
+};
+
+// Recipe behind an evolved card
+export const findEvolution = (card: CardDef): EvolutionRecipe | undefined =>
+    ALL_EVOLUTIONS.find(r => r.into === (card.templateId ?? card.id));
@@ -0,0 +1,75 @@
+
+import { ElementType } from './types';
+import { findReaction } from './reactions';
+import { dotName } from './statuses';
+
+// --- Damage Report ---
+// Every point of damage is tagged with the card it came from, its element and the reaction
+// behind it, if any, and added up per card: totals, kills, overkill and damage over time.
+// Plain data, so it goes into saves and out through engine events as it is.
+
+// A reaction id from the reaction table (see reactions.ts), or the tag of a status's
+// damage over time (see statuses.ts)
+export type Reaction = string;
+
+export const reactionName = (reaction: Reaction) =>
+    findReaction(reaction)?.name ?? dotName(reaction) ?? reaction;
+
+export interface DamageSource {
+    cardId: string;    // Card that caused it; reactions go to the card whose hit set them off
+    element: ElementType;
+    reaction?: Reaction;
+}
+
+export interface CardDamage {
+    name: string;
+    total: number;
+    hits: number;
+    kills: number;
+    overkill: number;   // Damage past the killing blow, part of total
+    byElement: { [element: number]: number };
+    byReaction: { [reaction: string]: number };
+    timeline: number[]; // Damage per REPORT_WINDOW ticks of play, for DPS over time
+}
+
+export interface DamageReport {
+    byCard: { [cardId: string]: CardDamage };
+}
+
+const WINDOW_SECONDS = 10;
+export const REPORT_WINDOW = WINDOW_SECONDS * 60; // Ticks
+
+export const createDamageReport = (): DamageReport => ({ byCard: {} });
+
+export const createCardDamage = (name: string): CardDamage => ({
+    name, total: 0, hits: 0, kills: 0, overkill: 0, byElement: {}, byReaction: {}, timeline: []
+});
+
+// hpAfter: the target's hp once the damage is taken, a kill when it just dropped to 0
+export const recordHit = (report: DamageReport, source: DamageSource, name: string, amount: number, hpAfter: number, gameTime: number) => {
+    const entry = report.byCard[source.cardId] ??= createCardDamage(name);
+    entry.total += amount;
+    entry.hits++;
+    entry.byElement[source.element] = (entry.byElement[source.element] || 0) + amount;
+    if (source.reaction) entry.byReaction[source.reaction] = (entry.byReaction[source.reaction] || 0) + amount;
+
+    if (hpAfter <= 0 && hpAfter + amount > 0) {
+        entry.kills++;
+        entry.overkill += Math.min(-hpAfter, amount);
+    }
+
+    const bucket = Math.floor(gameTime / REPORT_WINDOW);
+    while (entry.timeline.length <= bucket) entry.timeline.push(0);
+    entry.timeline[bucket] += amount;
+};
+
+export const reportTotal = (report: DamageReport) =>
+    Object.values(report.byCard).reduce((sum, c) => sum + c.total, 0);
+
+// Cards by total damage, highest first
+export const rankCards = (report: DamageReport): [string, CardDamage][] =>
+    Object.entries(report.byCard).sort((a, b) => b[1].total - a[1].total);
+
+// Damage per second over each window so far
+export const dpsTimeline = (card: CardDamage) =>
+    card.timeline.map(d => d / WINDOW_SECONDS);
@@ -0,0 +1,56 @@
+
+import { CardDef, ElementType, GameState, PlayerStats } from './types';
+import { EntityKind } from './simulation';
+import { DamageReport, Reaction } from './damage';
+import { AffixId } from './affixes';
+
+// --- Engine Events ---
+// Everything outside the engine (React HUD, audio, achievements, tests) listens here
+// instead of reaching into engine fields. Payloads are fresh objects, safe to keep.
+
+export interface EngineEvents {
+    stateChanged: { state: GameState };
+    statsUpdated: { stats: PlayerStats; wave: number; enemiesLeft: number }; // Throttled, a few times a second
+    aimChanged: { isAuto: boolean };
+    bossWarning: { name: string };
+    waveMessage: { text: string }; // Scripted, see waves.ts
+    waveStarted: { wave: number; totalEnemies: number };
+    waveCleared: { wave: number };
+    enemyKilled: { id: number; enemyType: EntityKind; isBoss: boolean; affixes: AffixId[]; x: number; y: number }; // affixes: empty unless an elite
+    damageDealt: { targetId: number; sourceId: string; element: ElementType; reaction?: Reaction; amount: number }; // sourceId: card id
+    damageReport: { report: DamageReport; gameTime: number }; // On pausing and at the end of a run
+    playerHit: { damage: number; hp: number; maxHp: number };
+    cardAdded: { card: CardDef };
+    levelUp: { level: number; options: CardDef[] };
+    artifactEvolved: { card: CardDef; recipeId: string };
+}
+
+export type EventListener<T> = (payload: T) => void;
+
+export class EventBus<Events> {
+    private listeners: { [K in keyof Events]?: EventListener<Events[K]>[] } = {};
+
+    // Returns the matching unsubscribe
+    on<K extends keyof Events>(name: K, listener: EventListener<Events[K]>): () => void {
+        (this.listeners[name] ??= []).push(listener);
+        return () => this.off(name, listener);
+    }
+
+    off<K extends keyof Events>(name: K, listener: EventListener<Events[K]>) {
+        const list = this.listeners[name];
+        if (!list) return;
+        const i = list.indexOf(listener);
+        if (i !== -1) list.splice(i, 1);
+    }
+
+    emit<K extends keyof Events>(name: K, payload: Events[K]) {
+        const list = this.listeners[name];
+        if (!list) return;
+        // Copy, listeners may unsubscribe while being called
+        [...list].forEach(listener => listener(payload));
+    }
+
+    clear() {
+        this.listeners = {};
+    }
+}
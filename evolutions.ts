@@ -0,0 +1,53 @@
+
+import { CardDef, SpellLayout } from './types';
+import { cardLevel } from './fusion';
+import { groupInventory } from './spells';
+
+// --- Artifact Evolutions ---
+// An artifact at the recipe's level or above, sharing a SpellBoard row with the recipe's
+// partner card (an effect, a buff or another artifact), evolves: it becomes the `into`
+// card, keeping its instance id and so its place on the board, and the partner is used up.
+// Once the artifact is high enough and the partner owned, level-ups may also offer the
+// evolved card, which evolves it on the spot. Recipes are data, listed under
+// "evolutions" in card packs (see cardPacks.ts).
+
+export interface EvolutionRecipe {
+    id: string;
+    artifact: string; // Catalogue card ids
+    with: string;
+    level: number;    // Artifact level needed
+    into: string;     // An `evolved` artifact
+}
+
+// evolved: done this run; ready: evolves on the next SpellBoard change; eligible: the
+// parts are owned but not in one row; locked: something is missing
+export type EvolutionProgress = 'evolved' | 'ready' | 'eligible' | 'locked';
+
+export interface EvolutionParts {
+    artifact: CardDef;
+    partner: CardDef;
+}
+
+const templateOf = (card: CardDef) => card.templateId ?? card.id;
+
+// The cards a recipe would use, from one SpellBoard row when a layout is given
+export const evolutionParts = (recipe: EvolutionRecipe, inventory: CardDef[], layout?: SpellLayout): EvolutionParts | null => {
+    const groups = layout ? groupInventory(inventory, layout) : [inventory];
+    for (const group of groups) {
+        const artifact = group.find(c => templateOf(c) === recipe.artifact && cardLevel(c) >= recipe.level);
+        const partner = group.find(c => templateOf(c) === recipe.with && c !== artifact);
+        if (artifact && partner) return { artifact, partner };
+    }
+    return null;
+};
+
+export const evolutionProgress = (recipe: EvolutionRecipe, inventory: CardDef[], layout: SpellLayout): EvolutionProgress => {
+    if (inventory.some(c => templateOf(c) === recipe.into)) return 'evolved';
+    if (evolutionParts(recipe, inventory, layout)) return 'ready';
+    if (evolutionParts(recipe, inventory)) return 'eligible';
+    return 'locked';
+};
+
+// Recipes level-ups may offer: parts owned, evolution not done yet
+export const offerableEvolutions = (recipes: EvolutionRecipe[], inventory: CardDef[]): EvolutionRecipe[] =>
+    recipes.filter(r => !inventory.some(c => templateOf(c) === r.into) && evolutionParts(r, inventory) !== null);
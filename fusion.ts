@@ -0,0 +1,67 @@
+
+import { CardDef, CardType } from './types';
+
+// --- Card Levels & Fusion ---
+// FUSION_COPIES effect or buff cards with the same name and level fuse into one: the card
+// named by `fusesInto` if the catalogue has a stronger counterpart, otherwise the same card
+// a level up. Artifacts are never fused, picking one you own levels it up instead.
+// A level is stored on the instance and applied to the catalogue card when it is built
+// (see instantiateCard), so saves only need to remember the number.
+
+export const FUSION_COPIES = 3;
+export const MAX_CARD_LEVEL = 5;
+
+const BUFF_AMOUNTS = ['range', 'speed', 'frequency', 'duration', 'damage'] as const;
+
+// The catalogue card at the given level; level 1 is the card as written
+export const levelCard = (template: CardDef, level: number): CardDef => {
+    const ups = Math.max(0, Math.min(level, MAX_CARD_LEVEL) - 1);
+    if (ups === 0) return { ...template };
+    const card: CardDef = { ...template, level: ups + 1 };
+
+    if (template.effectConfig) {
+        card.effectConfig = { ...template.effectConfig, influenceCount: template.effectConfig.influenceCount + ups };
+    }
+    if (template.buffConfig) {
+        const buff = { ...template.buffConfig };
+        BUFF_AMOUNTS.forEach(k => {
+            if (buff[k]) buff[k] = buff[k]! * (1 + 0.5 * ups);
+        });
+        if (buff.pierce) buff.pierce += ups;
+        card.buffConfig = buff;
+    }
+    if (template.artifactConfig) {
+        card.artifactConfig = {
+            ...template.artifactConfig,
+            baseDamage: template.artifactConfig.baseDamage * (1 + 0.25 * ups),
+            cooldown: template.artifactConfig.cooldown * Math.pow(0.9, ups)
+        };
+    }
+    return card;
+};
+
+export const cardLevel = (card: CardDef) => card.level ?? 1;
+
+// Cards fuse with others of the same name (as getRandomCard tells cards apart) and level
+const fusionKey = (card: CardDef) => `${card.name}#${cardLevel(card)}`;
+
+export const canFuse = (card: CardDef) =>
+    (card.type === CardType.EFFECT || card.type === CardType.BUFF) && (card.fusesInto !== undefined || cardLevel(card) < MAX_CARD_LEVEL);
+
+// Every set of copies that can fuse right now, first copies in inventory order
+export const findFusions = (inventory: CardDef[]): CardDef[][] => {
+    const byKey = new Map<string, CardDef[]>();
+    inventory.filter(canFuse).forEach(card => {
+        const key = fusionKey(card);
+        if (!byKey.has(key)) byKey.set(key, []);
+        byKey.get(key)!.push(card);
+    });
+    return [...byKey.values()]
+        .filter(copies => copies.length >= FUSION_COPIES)
+        .map(copies => copies.slice(0, FUSION_COPIES));
+};
+
+export const isFusion = (cards: CardDef[]) =>
+    cards.length === FUSION_COPIES && canFuse(cards[0]) &&
+    new Set(cards.map(c => c.id)).size === cards.length &&
+    cards.every(c => fusionKey(c) === fusionKey(cards[0]));
@@ -1,6 +1,43 @@
+/// <reference types="vite/client" />
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerCardPack } from './constants';
+import { registerReactionPack } from './reactions';
+import { registerWaveScript } from './waves';
+
+// Extra packs: every JSON file in cards/, reactions/ and waves/ besides the built-in base packs.
+// A broken pack is reported and skipped, the game still starts with the rest.
+const registerPacks = (packs: Record<string, unknown>, register: (data: unknown, source: string) => void) => {
+  Object.keys(packs).sort().forEach(path => {
+    if (path.endsWith('/base.json')) return;
+    try {
+      register(packs[path], path);
+    } catch (e) {
+      console.error(e);
+    }
+  });
+};
+registerPacks(import.meta.glob('./cards/*.json', { eager: true, import: 'default' }), registerCardPack);
+registerPacks(import.meta.glob('./reactions/*.json', { eager: true, import: 'default' }), registerReactionPack);
+const waveScripts = import.meta.glob('./waves/*.json', { eager: true, import: 'default' });
+registerPacks(waveScripts, registerWaveScript);
+
+// Wave scripts hot-reload under the dev server, the built-in one too: a saved file is checked
+// and registered again, and the running game picks it up on its next tick
+if (import.meta.hot) {
+  const paths = Object.keys(waveScripts);
+  import.meta.hot.accept(paths, modules => {
+    modules.forEach((mod, i) => {
+      if (!mod) return;
+      try {
+        registerWaveScript(mod.default, paths[i]);
+      } catch (e) {
+        console.error(e);
+      }
+    });
+  });
+}
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
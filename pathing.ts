@@ -0,0 +1,181 @@
+
+// --- Path Finding ---
+// Grid A* for tap-to-move. The grid only covers the box around start and goal (plus a
+// margin to walk around things), and blocking is asked through a callback, so this knows
+// nothing about obstacles or the arena. The cell path is then pulled tight into a few
+// straight legs. Pure and deterministic: the same inputs always give the same route.
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface PathOptions {
+    cellSize: number;
+    margin: number;   // Extra search room around the start/goal bounding box
+    maxNodes: number; // Cells expanded before giving up
+}
+
+export const DEFAULT_PATH_OPTIONS: PathOptions = {
+    cellSize: 16,
+    margin: 160,
+    maxNodes: 5000
+};
+
+// Samples the segment every half cell; the start point itself is not checked
+export const isSegmentClear = (a: Point, b: Point, isBlocked: (x: number, y: number) => boolean, step: number): boolean => {
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    const samples = Math.ceil(len / step);
+    for (let i = 1; i <= samples; i++) {
+        const t = i / samples;
+        if (isBlocked(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t)) return false;
+    }
+    return true;
+};
+
+// Binary min-heap of cell ids keyed by f score
+class OpenSet {
+    private ids: number[] = [];
+    private scores: number[] = [];
+
+    get size() {
+        return this.ids.length;
+    }
+
+    push(id: number, score: number) {
+        let i = this.ids.length;
+        this.ids.push(id);
+        this.scores.push(score);
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.scores[parent] <= score) break;
+            this.ids[i] = this.ids[parent];
+            this.scores[i] = this.scores[parent];
+            i = parent;
+        }
+        this.ids[i] = id;
+        this.scores[i] = score;
+    }
+
+    pop(): number {
+        const top = this.ids[0];
+        const lastId = this.ids.pop()!;
+        const lastScore = this.scores.pop()!;
+        const n = this.ids.length;
+        if (n > 0) {
+            let i = 0;
+            while (true) {
+                let child = i * 2 + 1;
+                if (child >= n) break;
+                if (child + 1 < n && this.scores[child + 1] < this.scores[child]) child++;
+                if (this.scores[child] >= lastScore) break;
+                this.ids[i] = this.ids[child];
+                this.scores[i] = this.scores[child];
+                i = child;
+            }
+            this.ids[i] = lastId;
+            this.scores[i] = lastScore;
+        }
+        return top;
+    }
+}
+
+const NEIGHBOURS = [
+    [1, 0], [-1, 0], [0, 1], [0, -1],
+    [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+// Waypoints after start, ending exactly on goal. [goal] when the straight line is clear,
+// null when no route was found within the search limits.
+export const findPath = (start: Point, goal: Point, isBlocked: (x: number, y: number) => boolean, options: PathOptions = DEFAULT_PATH_OPTIONS): Point[] | null => {
+    const { cellSize, margin, maxNodes } = options;
+    const step = cellSize / 2;
+    if (isSegmentClear(start, goal, isBlocked, step)) return [{ x: goal.x, y: goal.y }];
+
+    const originX = Math.min(start.x, goal.x) - margin;
+    const originY = Math.min(start.y, goal.y) - margin;
+    const w = Math.ceil((Math.max(start.x, goal.x) + margin - originX) / cellSize) + 1;
+    const h = Math.ceil((Math.max(start.y, goal.y) + margin - originY) / cellSize) + 1;
+
+    const cellX = (gx: number) => originX + (gx + 0.5) * cellSize;
+    const cellY = (gy: number) => originY + (gy + 0.5) * cellSize;
+    const startId = Math.floor((start.y - originY) / cellSize) * w + Math.floor((start.x - originX) / cellSize);
+    const goalGx = Math.floor((goal.x - originX) / cellSize);
+    const goalGy = Math.floor((goal.y - originY) / cellSize);
+    const goalId = goalGy * w + goalGx;
+
+    // 0 unknown, 1 free, 2 blocked; start and goal cells count as free whatever is there
+    const blocked = new Uint8Array(w * h);
+    blocked[startId] = 1;
+    blocked[goalId] = 1;
+    const isFree = (gx: number, gy: number) => {
+        if (gx < 0 || gy < 0 || gx >= w || gy >= h) return false;
+        const id = gy * w + gx;
+        if (blocked[id] === 0) blocked[id] = isBlocked(cellX(gx), cellY(gy)) ? 2 : 1;
+        return blocked[id] === 1;
+    };
+
+    const gScore = new Float64Array(w * h).fill(Infinity);
+    const cameFrom = new Int32Array(w * h).fill(-1);
+    const closed = new Uint8Array(w * h);
+    const heuristic = (gx: number, gy: number) => {
+        const dx = Math.abs(gx - goalGx);
+        const dy = Math.abs(gy - goalGy);
+        return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy); // Octile
+    };
+
+    const open = new OpenSet();
+    gScore[startId] = 0;
+    open.push(startId, heuristic(startId % w, Math.floor(startId / w)));
+
+    let expanded = 0;
+    let found = false;
+    while (open.size > 0 && expanded < maxNodes) {
+        const id = open.pop();
+        if (closed[id]) continue;
+        if (id === goalId) {
+            found = true;
+            break;
+        }
+        closed[id] = 1;
+        expanded++;
+
+        const gx = id % w;
+        const gy = Math.floor(id / w);
+        for (const [nx, ny] of NEIGHBOURS) {
+            if (!isFree(gx + nx, gy + ny)) continue;
+            // Diagonals may not cut a blocked corner
+            if (nx !== 0 && ny !== 0 && (!isFree(gx + nx, gy) || !isFree(gx, gy + ny))) continue;
+
+            const next = (gy + ny) * w + (gx + nx);
+            if (closed[next]) continue;
+            const g = gScore[id] + (nx !== 0 && ny !== 0 ? Math.SQRT2 : 1);
+            if (g < gScore[next]) {
+                gScore[next] = g;
+                cameFrom[next] = id;
+                open.push(next, g + heuristic(gx + nx, gy + ny));
+            }
+        }
+    }
+    if (!found) return null;
+
+    const cells: Point[] = [];
+    for (let id = cameFrom[goalId]; id !== -1 && id !== startId; id = cameFrom[id]) {
+        cells.push({ x: cellX(id % w), y: cellY(Math.floor(id / w)) });
+    }
+    cells.reverse();
+    cells.push({ x: goal.x, y: goal.y });
+
+    // String pulling: from each anchor walk on while the next cell is still in sight
+    const path: Point[] = [];
+    let anchor = start;
+    let i = 0;
+    while (i < cells.length) {
+        let next = i;
+        while (next + 1 < cells.length && isSegmentClear(anchor, cells[next + 1], isBlocked, step)) next++;
+        path.push(cells[next]);
+        anchor = cells[next];
+        i = next + 1;
+    }
+    return path;
+};
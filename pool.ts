@@ -0,0 +1,58 @@
+
+// --- Object Pools ---
+// High-churn visuals (particles, damage numbers, bullet and orb views) are parked here
+// when they expire and handed out again instead of allocating fresh Pixi objects.
+// The caller resets whatever it needs after acquire(); the pool only stores and counts.
+
+export interface PoolStats {
+    reused: number;    // Acquires served from parked items
+    misses: number;    // Acquires that had to allocate (pool empty)
+    discarded: number; // Releases destroyed because the pool was already full
+    idle: number;      // Currently parked
+}
+
+export class Pool<T> {
+    readonly maxIdle: number;
+    private idle: T[] = [];
+    private create: () => T;
+    private dispose: (item: T) => void;
+
+    reused = 0;
+    misses = 0;
+    discarded = 0;
+
+    constructor(create: () => T, dispose: (item: T) => void, maxIdle: number) {
+        this.create = create;
+        this.dispose = dispose;
+        this.maxIdle = maxIdle;
+    }
+
+    acquire(): T {
+        const item = this.idle.pop();
+        if (item !== undefined) {
+            this.reused++;
+            return item;
+        }
+        this.misses++;
+        return this.create();
+    }
+
+    release(item: T) {
+        if (this.idle.length < this.maxIdle) {
+            this.idle.push(item);
+        } else {
+            this.discarded++;
+            this.dispose(item);
+        }
+    }
+
+    // Destroys everything parked, counters are kept
+    drain() {
+        this.idle.forEach(item => this.dispose(item));
+        this.idle = [];
+    }
+
+    get stats(): PoolStats {
+        return { reused: this.reused, misses: this.misses, discarded: this.discarded, idle: this.idle.length };
+    }
+}
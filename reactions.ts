@@ -0,0 +1,162 @@
+
+import { ElementType } from './types';
+import { STATUS_NAMES, StatusName, isStatusName } from './statuses';
+import basePack from './reactions/base.json';
+
+// --- Elemental Reactions ---
+// What a hit does to an enemy that already carries a status, keyed by (status, incoming
+// element). Reactions are data: JSON packs in reactions/ are checked here like card packs
+// and merged by id, so a combo can be added or retuned without touching the simulation.
+// Element and status names are the ones in types.ts and statuses.ts ("FIRE", "BURNING"),
+// colours "#rrggbb".
+
+// A Record, so adding a value to the type without listing it here fails to compile
+const VISUALS: Record<NonNullable<ReactionArea['visual']>, true> = { storm: true, burst: true };
+
+export interface ReactionArea {
+    radius: number;
+    damage?: number;          // Flat, scaled by the player's damage multiplier
+    hitDamage?: number;       // Share of the damage of the hit that set it off
+    includeTarget?: boolean;  // The struck enemy is caught too
+    onlyStatus?: StatusName;  // Only enemies carrying this are caught
+    apply?: StatusName[];     // Put on everything caught
+    visual?: 'storm' | 'burst';
+}
+
+export interface ReactionDef {
+    id: string;
+    name: string;          // Shown in the damage report
+    status: StatusName;    // The enemy has this...
+    element: ElementType;  // ...and is hit by this
+    damageMult: number;    // On the hit that sets it off
+    consume: boolean;      // The status is used up
+    blockStatus: boolean;  // The hit leaves no status of its own
+    apply: StatusName[];   // Put on the struck enemy
+    area?: ReactionArea;
+    text?: string;         // Floating text over the enemy
+    color: number;         // Text and particles
+}
+
+const REACTION_FIELDS = ['id', 'name', 'status', 'element', 'damageMult', 'consume', 'blockStatus', 'apply', 'area', 'text', 'color'];
+const AREA_FIELDS = ['radius', 'damage', 'hitDamage', 'includeTarget', 'onlyStatus', 'apply', 'visual'];
+
+export class ReactionPackError extends Error {
+    readonly problems: string[];
+
+    constructor(source: string, problems: string[]) {
+        super(`Reaction pack ${source} is invalid:\n  ${problems.join('\n  ')}`);
+        this.name = 'ReactionPackError';
+        this.problems = problems;
+    }
+}
+
+const elementNames = Object.keys(ElementType).filter(k => isNaN(Number(k)));
+const oneOf = (values: string[]) => values.map(v => `"${v}"`).join(', ');
+const isObject = (v: unknown): v is { [key: string]: any } => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+const parseReaction = (raw: unknown, path: string, problems: string[]): ReactionDef | null => {
+    if (!isObject(raw)) {
+        problems.push(`${path}: expected an object`);
+        return null;
+    }
+    const at = typeof raw.id === 'string' ? `${path} (${raw.id})` : path;
+    const before = problems.length;
+    const fail = (msg: string) => problems.push(`${at}: ${msg}`);
+    const checkStatuses = (field: string, v: unknown) => {
+        if (v !== undefined && (!Array.isArray(v) || !v.every(isStatusName))) fail(`"${field}" must be a list of statuses (${oneOf(STATUS_NAMES)})`);
+    };
+
+    Object.keys(raw).filter(k => !REACTION_FIELDS.includes(k)).forEach(k => fail(`unknown field "${k}"`));
+    for (const field of ['id', 'name'] as const) {
+        if (typeof raw[field] !== 'string' || raw[field] === '') fail(`"${field}" must be a non-empty string`);
+    }
+    if (!isStatusName(raw.status)) fail(`unknown status "${raw.status}" (expected one of ${oneOf(STATUS_NAMES)})`);
+    if (!elementNames.includes(raw.element)) fail(`unknown element "${raw.element}" (expected one of ${oneOf(elementNames)})`);
+    if (raw.damageMult !== undefined && !(isNumber(raw.damageMult) && raw.damageMult >= 0)) fail(`"damageMult" must be a number, 0 or more`);
+    for (const field of ['consume', 'blockStatus'] as const) {
+        if (raw[field] !== undefined && typeof raw[field] !== 'boolean') fail(`"${field}" must be true or false`);
+    }
+    checkStatuses('apply', raw.apply);
+    if (raw.text !== undefined && typeof raw.text !== 'string') fail(`"text" must be a string`);
+    if (typeof raw.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(raw.color)) fail(`"color" must be "#rrggbb"`);
+
+    const area = raw.area;
+    if (area !== undefined) {
+        if (!isObject(area)) {
+            fail(`"area" must be an object`);
+        } else {
+            Object.keys(area).filter(k => !AREA_FIELDS.includes(k)).forEach(k => fail(`area.${k}: unknown field`));
+            if (!(isNumber(area.radius) && area.radius > 0)) fail(`area.radius: must be a number above 0`);
+            for (const field of ['damage', 'hitDamage'] as const) {
+                if (area[field] !== undefined && !(isNumber(area[field]) && area[field] >= 0)) fail(`area.${field}: must be a number, 0 or more`);
+            }
+            if (area.includeTarget !== undefined && typeof area.includeTarget !== 'boolean') fail(`area.includeTarget: must be true or false`);
+            if (area.onlyStatus !== undefined && !isStatusName(area.onlyStatus)) fail(`area.onlyStatus: unknown status "${area.onlyStatus}"`);
+            checkStatuses('area.apply', area.apply);
+            if (area.visual !== undefined && !Object.prototype.hasOwnProperty.call(VISUALS, area.visual)) {
+                fail(`area.visual: unknown visual "${area.visual}" (expected one of ${oneOf(Object.keys(VISUALS))})`);
+            }
+        }
+    }
+
+    if (problems.length > before) return null;
+    return {
+        id: raw.id,
+        name: raw.name,
+        status: raw.status,
+        element: ElementType[raw.element as keyof typeof ElementType],
+        damageMult: raw.damageMult ?? 1,
+        consume: raw.consume ?? false,
+        blockStatus: raw.blockStatus ?? false,
+        apply: raw.apply ?? [],
+        area: area ? { ...area } : undefined,
+        text: raw.text,
+        color: parseInt(raw.color.slice(1), 16)
+    };
+};
+
+// Throws ReactionPackError listing every problem in the pack
+export const parseReactionPack = (data: unknown, source: string): ReactionDef[] => {
+    if (!isObject(data) || !Array.isArray(data.reactions)) {
+        throw new ReactionPackError(source, ['expected { "reactions": [...] }']);
+    }
+
+    const problems: string[] = [];
+    const seen = new Set<string>();
+    const reactions: ReactionDef[] = [];
+    data.reactions.forEach((raw: unknown, i: number) => {
+        const reaction = parseReaction(raw, `reactions[${i}]`, problems);
+        if (!reaction) return;
+        if (seen.has(reaction.id)) {
+            problems.push(`reactions[${i}] (${reaction.id}): duplicate id in this pack`);
+            return;
+        }
+        seen.add(reaction.id);
+        reactions.push(reaction);
+    });
+
+    if (problems.length > 0) throw new ReactionPackError(source, problems);
+    return reactions;
+};
+
+// --- Registry ---
+// In pack order, which is also the order reactions to the same hit fire in
+export const ALL_REACTIONS: ReactionDef[] = [];
+
+export const registerReactionPack = (data: unknown, source: string) => {
+    parseReactionPack(data, source).forEach(reaction => {
+        const existing = ALL_REACTIONS.findIndex(r => r.id === reaction.id);
+        if (existing !== -1) ALL_REACTIONS[existing] = reaction;
+        else ALL_REACTIONS.push(reaction);
+    });
+};
+
+registerReactionPack(basePack, 'reactions/base.json');
+
+export const findReaction = (id: string): ReactionDef | undefined =>
+    ALL_REACTIONS.find(r => r.id === id);
+
+// Reactions a hit of this element sets off on an enemy, given what it carries
+export const reactionsFor = (element: ElementType, hasStatus: (status: StatusName) => boolean): ReactionDef[] =>
+    ALL_REACTIONS.filter(r => r.element === element && hasStatus(r.status));
@@ -0,0 +1,971 @@
+
+import { Application, Container, Graphics, Text } from 'pixi.js';
+import { ElementType, GameState, MapType } from './types';
+import { SCREEN_HEIGHT, SCREEN_WIDTH, COLORS } from './constants';
+import { RngService } from './rng';
+import { ARENA_HALF_SIZE, Bullet, EnemyType, Entity, Hazard, Obstacle, RANGED_ENEMIES, Simulation, XPOrb, isBlast } from './simulation';
+import { Pool, PoolStats } from './pool';
+import { statusTint } from './statuses';
+import { ATTUNE_CYCLE, bossDef } from './bosses';
+import { AFFIX_DEFS, AffixId, affixPlate } from './affixes';
+
+// --- Pixi Rendering Layer ---
+// Mirrors the simulation's plain data into display objects every frame and owns all
+// purely visual effects. Nothing in here may influence the simulation.
+
+// Display object for one simulation object, matched by id
+type View = Container & {
+    stamp: number;       // Last frame the object was seen, unseen views get swept
+    animOffset: number;
+    trailTimer: number;
+    snakeTimer: number;
+    poolKey?: string;    // Shape it was drawn as; pooled views go back instead of being destroyed
+}
+
+type Particle = Graphics & {
+    vx: number;
+    vy: number;
+    life: number;
+    maxLife: number;
+    isStatic: boolean;
+}
+
+// Managed Text system to avoid Ticker overload
+interface FloatingText {
+    container: Text;
+    x: number;
+    y: number;
+    life: number;
+    velocityY: number;
+}
+
+interface TemporaryEffect {
+    container: Graphics;
+    life: number;
+    onUpdate: (g: Graphics, life: number) => void;
+}
+
+// Pool sizes are idle objects kept for reuse; the caps bound what is alive at once
+export interface RenderPoolConfig {
+    particles: number;
+    texts: number;
+    viewsPerShape: number;
+    maxParticles: number;
+    maxFloatingTexts: number;
+}
+
+export const DEFAULT_POOL_CONFIG: RenderPoolConfig = {
+    particles: 1500,
+    texts: 200,
+    viewsPerShape: 300,
+    maxParticles: 1500,
+    maxFloatingTexts: 200
+};
+
+const XP_TIER_STYLE = [
+    { color: COLORS.XP_GRAY, size: 5 },
+    { color: COLORS.XP_GREEN, size: 6 },
+    { color: COLORS.XP_BLUE, size: 7 },
+    { color: COLORS.XP_ORANGE, size: 8 },
+    { color: COLORS.XP_RED, size: 9 },
+    { color: COLORS.XP_PRISM, size: 10 },
+];
+
+export class Renderer {
+    app: Application;
+    rng: RngService;
+
+    // Containers
+    world: Container;
+    views: Map<number, View> = new Map();
+    frame: number = 0;
+    alpha: number = 1; // Interpolation factor between the previous and current tick
+    camera: { x: number, y: number } = { x: 0, y: 0 }; // World point at the screen centre
+    arenaView: Graphics | null = null;
+
+    // Managed Visuals
+    particles: Particle[] = [];
+    floatingTexts: FloatingText[] = [];
+    tempEffects: TemporaryEffect[] = [];
+
+    // Performance
+    damageTextCooldown: number = 0;
+    poolConfig: RenderPoolConfig;
+    particlePool: Pool<Particle>;
+    textPool: Pool<Text>;
+    viewPools: Map<string, Pool<View>> = new Map();
+
+    constructor(rng: RngService, poolConfig: Partial<RenderPoolConfig> = {}) {
+        this.app = new Application();
+        this.rng = rng;
+        this.world = new Container();
+        this.poolConfig = { ...DEFAULT_POOL_CONFIG, ...poolConfig };
+
+        // Drawn white once and tinted per use, so one pool serves every colour
+        this.particlePool = new Pool(
+            () => new Graphics().rect(0,0, 3, 3).fill(0xffffff) as Particle,
+            p => p.destroy(),
+            this.poolConfig.particles
+        );
+        // Black stroke stays black under the tint
+        this.textPool = new Pool(
+            () => new Text({
+                text: '',
+                style: {
+                    fontFamily: 'Courier New',
+                    fontSize: 14,
+                    fill: 0xffffff,
+                    stroke: { color: 0x000000, width: 2 },
+                    fontWeight: 'bold'
+                }
+            }),
+            t => t.destroy(),
+            this.poolConfig.texts
+        );
+    }
+
+    async init(canvas: HTMLCanvasElement) {
+        await this.app.init({
+            canvas: canvas,
+            width: SCREEN_WIDTH,
+            height: SCREEN_HEIGHT,
+            backgroundColor: 0x1a1a2e,
+            antialias: false,
+            resolution: Math.min(window.devicePixelRatio, 2),
+        });
+
+        this.app.stage.addChild(this.world);
+        this.world.sortableChildren = true;
+    }
+
+    // New run: simulation ids restart, so every view goes
+    clear() {
+        this.views.forEach(v => this.releaseView(v));
+        this.views.clear();
+        this.particles.forEach(p => this.releaseParticle(p));
+        this.particles = [];
+        this.floatingTexts.forEach(ft => this.releaseText(ft.container));
+        this.floatingTexts = [];
+        this.tempEffects.forEach(ef => ef.container.destroy());
+        this.tempEffects = [];
+        this.arenaView?.destroy();
+        this.arenaView = null;
+    }
+
+    // --- SYNC ---
+    // alpha: how far real time has moved past the last simulated tick (0..1)
+    sync(sim: Simulation, delta: number, alpha: number = 1) {
+        this.frame++;
+        this.alpha = alpha;
+
+        this.syncEntity(sim.player, delta);
+        sim.enemies.forEach(e => this.syncEntity(e, delta));
+        sim.bullets.forEach(b => this.syncBullet(b, delta));
+        sim.hazards.forEach(h => this.syncHazard(h));
+        sim.xpOrbs.forEach(o => this.syncOrb(o));
+        sim.obstacles.forEach(o => this.syncObstacle(o));
+
+        // Sweep views whose objects left the simulation
+        this.views.forEach((view, id) => {
+            if (view.stamp !== this.frame) {
+                this.releaseView(view);
+                this.views.delete(id);
+            }
+        });
+
+        if (sim.state === GameState.PRE_LEVEL_UP && this.rng.cosmetic.next() < 0.3) {
+             this.spawnParticle(
+                 sim.player.x + (this.rng.cosmetic.next()-0.5)*30,
+                 sim.player.y + 10,
+                 0xffd700,
+                 1,
+                 true
+             );
+        }
+
+        if (sim.mapType === MapType.FIXED && !this.arenaView) {
+            this.arenaView = this.drawArena();
+            this.world.addChild(this.arenaView);
+        }
+
+        // Camera follows the player, in the arena it stops at the walls
+        this.camera.x = this.lerpX(sim.player);
+        this.camera.y = this.lerpY(sim.player);
+        if (sim.mapType === MapType.FIXED) {
+            this.camera.x = this.clampCamera(this.camera.x, SCREEN_WIDTH);
+            this.camera.y = this.clampCamera(this.camera.y, SCREEN_HEIGHT);
+        }
+        this.world.pivot.x = this.camera.x;
+        this.world.pivot.y = this.camera.y;
+        this.world.position.x = SCREEN_WIDTH / 2;
+        this.world.position.y = SCREEN_HEIGHT / 2;
+    }
+
+    // Keeps the view inside the arena; an arena smaller than the screen stays centred
+    clampCamera(v: number, screenSize: number) {
+        const limit = ARENA_HALF_SIZE + 40 - screenSize / 2; // Show the wall itself
+        return limit <= 0 ? 0 : Math.max(-limit, Math.min(limit, v));
+    }
+
+    screenToWorld(x: number, y: number) {
+        return { x: x - SCREEN_WIDTH / 2 + this.camera.x, y: y - SCREEN_HEIGHT / 2 + this.camera.y };
+    }
+
+    drawArena(): Graphics {
+        const g = new Graphics();
+        const size = ARENA_HALF_SIZE * 2;
+        g.rect(-ARENA_HALF_SIZE, -ARENA_HALF_SIZE, size, size).fill({ color: 0x22223a });
+        // Brick walls just outside the playable square
+        g.rect(-ARENA_HALF_SIZE - 40, -ARENA_HALF_SIZE - 40, size + 80, size + 80).stroke({ width: 40, color: 0x4b5563, alignment: 1 });
+        g.rect(-ARENA_HALF_SIZE, -ARENA_HALF_SIZE, size, size).stroke({ width: 4, color: 0x9ca3af });
+        g.zIndex = 0;
+        return g;
+    }
+
+    lerpX(o: { x: number, prevX: number }) {
+        return o.prevX + (o.x - o.prevX) * this.alpha;
+    }
+
+    lerpY(o: { y: number, prevY: number }) {
+        return o.prevY + (o.y - o.prevY) * this.alpha;
+    }
+
+    // poolKey: views with the same key look identical when fresh and may be recycled
+    getView(id: number, create: () => Graphics, zIndex = 10, poolKey?: string): View {
+        let view = this.views.get(id);
+        if (!view) {
+            const build = () => {
+                const v = new Container() as View;
+                v.addChild(create());
+                v.poolKey = poolKey;
+                return v;
+            };
+            view = poolKey ? this.getViewPool(poolKey, build).acquire() : build();
+            view.animOffset = this.rng.cosmetic.next() * 100;
+            view.trailTimer = 0;
+            view.snakeTimer = 0;
+            view.zIndex = zIndex;
+            view.alpha = 1;
+            view.tint = 0xffffff;
+            view.rotation = 0;
+            view.scale.set(1);
+            this.views.set(id, view);
+            this.world.addChild(view);
+        }
+        view.stamp = this.frame;
+        return view;
+    }
+
+    getViewPool(key: string, create: () => View): Pool<View> {
+        let pool = this.viewPools.get(key);
+        if (!pool) {
+            pool = new Pool(create, v => v.destroy({ children: true }), this.poolConfig.viewsPerShape);
+            this.viewPools.set(key, pool);
+        }
+        return pool;
+    }
+
+    releaseView(view: View) {
+        const pool = view.poolKey ? this.viewPools.get(view.poolKey) : undefined;
+        if (!pool) {
+            view.destroy({ children: true });
+            return;
+        }
+        view.parent?.removeChild(view);
+        pool.release(view);
+    }
+
+    releaseParticle(p: Particle) {
+        p.parent?.removeChild(p);
+        this.particlePool.release(p);
+    }
+
+    releaseText(t: Text) {
+        t.parent?.removeChild(t);
+        this.textPool.release(t);
+    }
+
+    // Per pool counters, all view shapes summed up
+    poolStats(): (PoolStats & { name: string })[] {
+        const views: PoolStats = { reused: 0, misses: 0, discarded: 0, idle: 0 };
+        this.viewPools.forEach(pool => {
+            const st = pool.stats;
+            views.reused += st.reused;
+            views.misses += st.misses;
+            views.discarded += st.discarded;
+            views.idle += st.idle;
+        });
+        return [
+            { name: 'particles', ...this.particlePool.stats },
+            { name: 'texts', ...this.textPool.stats },
+            { name: 'views', ...views }
+        ];
+    }
+
+    syncEntity(e: Entity, delta: number) {
+        if (e.enemyType === 'player') {
+            const view = this.getView(e.id, () => this.drawPlayer(), 100);
+            view.x = this.lerpX(e);
+            view.y = this.lerpY(e);
+            view.alpha = e.invulnTimer > 0 ? 0.5 : 1;
+            return;
+        }
+
+        const view = this.getView(e.id, () => this.drawEnemy(e));
+        view.x = this.lerpX(e);
+        view.y = this.lerpY(e);
+        view.tint = e.hitFlashTimer > 0 ? 0xff0000 : statusTint(e.statuses) ?? 0xffffff;
+
+        // Animation Squeeze
+        view.animOffset += delta * 0.2;
+        const squeeze = Math.sin(view.animOffset) * 0.1;
+        view.scale.x = e.baseScale * (1 + squeeze);
+        view.scale.y = e.baseScale * (1 - squeeze);
+
+        if (e.isBoss) this.syncBossOverlay(view, e);
+        if (e.affixes) this.syncEliteOverlay(view, e, e.affixes);
+
+        // Ranged enemies flash before they shoot
+        const ranged = RANGED_ENEMIES[e.enemyType as EnemyType];
+        if (ranged && e.attackTimer !== undefined && e.attackTimer < ranged.windup && this.frame % 6 < 3 && e.hitFlashTimer <= 0) {
+            view.tint = ranged.color;
+        }
+    }
+
+    // Telegraphs and defences drawn over a boss, redrawn every frame
+    syncBossOverlay(view: View, e: Entity) {
+        const def = bossDef(e.bossType);
+        let g = view.children[1] as Graphics | undefined;
+        if (!g) {
+            g = new Graphics();
+            view.addChild(g);
+        }
+        g.clear();
+        g.scale.set(1 / view.scale.x, 1 / view.scale.y); // Unsqueezed, in world units
+
+        if (e.bossWindup !== undefined) {
+            // Flashing, with a ring closing in as the attack gets near
+            if (this.frame % 8 < 4 && e.hitFlashTimer <= 0) view.tint = def.accent;
+            const t = e.bossWindup / def.windup;
+            g.circle(0, 0, e.radius + 10 + t * 40).stroke({ width: 3, color: def.accent, alpha: 0.8 });
+            if ((def.attack === 'charge' || def.attack === 'dash') && e.bossAim) {
+                g.moveTo(0, 0).lineTo(e.bossAim.x - e.x, e.bossAim.y - e.y).stroke({ width: 4, color: 0xff0000, alpha: 0.5 });
+            }
+        }
+        if (e.shieldTimer !== undefined) {
+            g.circle(0, 0, e.radius + 8).fill({ color: def.accent, alpha: 0.2 });
+            g.circle(0, 0, e.radius + 8).stroke({ width: 3, color: def.color, alpha: 0.9 });
+        }
+        const immune = ATTUNE_CYCLE.find(a => a.element === e.immuneElement);
+        if (immune) g.circle(0, 0, e.radius + 4).stroke({ width: 4, color: immune.color, alpha: 0.8 });
+    }
+
+    // A pulsing aura ring per affix and a name plate listing them
+    syncEliteOverlay(view: View, e: Entity, affixes: AffixId[]) {
+        let overlay = view.children[1] as Container | undefined;
+        if (!overlay) {
+            overlay = new Container();
+            overlay.addChild(new Graphics());
+            const plate = new Text({
+                text: affixPlate(affixes),
+                style: {
+                    fontFamily: 'Courier New',
+                    fontSize: 11,
+                    fill: AFFIX_DEFS[affixes[0]].color,
+                    stroke: { color: 0x000000, width: 2 },
+                    fontWeight: 'bold'
+                }
+            });
+            plate.anchor.set(0.5, 1);
+            overlay.addChild(plate);
+            view.addChild(overlay);
+        }
+        overlay.scale.set(1 / view.scale.x, 1 / view.scale.y); // Unsqueezed, in world units
+
+        const g = overlay.children[0] as Graphics;
+        g.clear();
+        const pulse = Math.sin(this.frame * 0.15) * 2;
+        affixes.forEach((id, i) => {
+            g.circle(0, 0, e.radius + 4 + i * 4 + pulse).stroke({ width: 2, color: AFFIX_DEFS[id].color, alpha: 0.7 });
+        });
+        const immune = ATTUNE_CYCLE.find(a => a.element === e.immuneElement);
+        if (immune) g.circle(0, 0, e.radius + 2).fill({ color: immune.color, alpha: 0.25 });
+        overlay.children[1].y = -e.radius - 8 - affixes.length * 4;
+    }
+
+    drawPlayer(): Graphics {
+        const g = new Graphics();
+        // --- Pixel Art: Wizard ---
+        g.rect(-6, -8, 12, 16).fill(0x3b82f6);
+        g.rect(-6, -12, 12, 4).fill(0x1d4ed8);
+        g.rect(-4, -10, 8, 4).fill(0xffccaa);
+        g.rect(-6, 0, 12, 2).fill(0xfca5a5);
+        g.rect(6, -10, 2, 20).fill(0x78350f);
+        g.rect(5, -12, 4, 4).fill(0xef4444);
+        return g;
+    }
+
+    drawEnemy(e: Entity): Graphics {
+        const g = new Graphics();
+
+        // Draw based on type
+        switch(e.enemyType) {
+            case 'slime':
+                // Green, blobby
+                g.roundRect(-8, -8, 16, 16, 5).fill(0x10b981);
+                g.circle(-3, -3, 2).fill(0x000000); // Eye
+                g.circle(3, -3, 2).fill(0x000000); // Eye
+                break;
+            case 'bat':
+                // Purple, fast, flying V shape
+                g.poly([-10, -5, 0, 5, 10, -5, 0, 2]).fill(0x8b5cf6);
+                break;
+            case 'skull':
+                // Grey, slow, tough
+                g.rect(-10, -12, 20, 20).fill(0x9ca3af);
+                g.rect(-4, 8, 8, 4).fill(0x9ca3af); // Jaw
+                g.rect(-6, -4, 4, 4).fill(0x000000); // Eye
+                g.rect(2, -4, 4, 4).fill(0x000000); // Eye
+                break;
+            case 'eye':
+                // Red, floating, watching
+                g.circle(0, 0, 10).fill(0xffffff);
+                g.circle(0, 0, 4).fill(0xff0000); // Iris
+                g.circle(0, 0, 14).stroke({ width: 2, color: 0xef4444 });
+                break;
+            case 'boss':
+                this.drawBoss(g, e);
+                break;
+        }
+        return g;
+    }
+
+    // One look per boss (see bosses.ts), drawn at full size, split halves are scaled down
+    drawBoss(g: Graphics, e: Entity) {
+        const { shape, color, accent } = bossDef(e.bossType);
+        const r = e.radius / e.baseScale;
+
+        switch (shape) {
+            case 'hydra':
+                // Nine heads on necks over a coiled body
+                for (let i = 0; i < 9; i++) {
+                    const a = -Math.PI / 2 + (i - 4) * 0.3;
+                    const hx = Math.cos(a) * r * 1.5;
+                    const hy = Math.sin(a) * r * 1.5;
+                    g.moveTo(0, 0).lineTo(hx, hy).stroke({ width: 4, color });
+                    g.circle(hx, hy, 5).fill(accent);
+                }
+                g.circle(0, 0, r).fill(color);
+                g.circle(0, 0, r * 0.5).stroke({ width: 3, color: accent });
+                break;
+            case 'brute':
+                g.rect(-r, -r, r * 2, r * 2).fill(color);
+                g.poly([-r, -r, -r - 12, -r - 18, -r + 10, -r]).fill(accent); // Horns
+                g.poly([r, -r, r + 12, -r - 18, r - 10, -r]).fill(accent);
+                g.rect(-10, -10, 8, 8).fill(accent);
+                g.rect(2, -10, 8, 8).fill(accent);
+                g.rect(-6, 6, 12, 6).fill(0x330000); // Nose ring
+                break;
+            case 'monk':
+                g.poly([-r, r, -r * 0.6, -r * 0.4, r * 0.6, -r * 0.4, r, r]).fill(color); // Robe
+                g.circle(0, -r * 0.6, r * 0.45).fill(0xffccaa);
+                g.rect(-r * 0.4, -r * 0.85, r * 0.8, 4).fill(accent); // Yellow brows
+                g.circle(0, r * 0.2, 5).fill(accent);
+                break;
+            case 'gale':
+                g.circle(0, 0, r).fill(color);
+                g.arc(0, 0, r * 1.3, 0, Math.PI * 0.8).stroke({ width: 4, color: accent });
+                g.arc(0, 0, r * 1.3, Math.PI, Math.PI * 1.8).stroke({ width: 4, color: accent });
+                g.rect(-8, -6, 5, 5).fill(0x000000);
+                g.rect(3, -6, 5, 5).fill(0x000000);
+                break;
+            case 'wraith':
+                g.poly([0, -r * 1.3, r, -r * 0.2, r * 0.7, r, -r * 0.7, r, -r, -r * 0.2]).fill(accent); // Hood
+                g.roundRect(-r * 0.6, -r * 0.7, r * 1.2, r * 1.2, 6).fill(color); // Skull
+                g.rect(-r * 0.4, -r * 0.4, 6, 6).fill(0x000000);
+                g.rect(r * 0.4 - 6, -r * 0.4, 6, 6).fill(0x000000);
+                break;
+            case 'spear':
+                g.rect(-r * 0.6, -r, r * 1.2, r * 2).fill(color);
+                g.circle(0, 0, r * 0.9).stroke({ width: 4, color: accent }); // Fire wheels
+                g.rect(-r * 1.6, -2, r * 3.2, 4).fill(0x78350f); // Spear
+                g.poly([r * 1.6, -6, r * 2.1, 0, r * 1.6, 6]).fill(accent);
+                break;
+            case 'ape':
+                g.circle(0, 0, r).fill(color);
+                g.circle(0, 2, r * 0.6).fill(0xd6b38a); // Face
+                for (let i = 0; i < 3; i++) {
+                    g.circle(-r - 2, -8 + i * 8, 4).fill(accent); // Six ears
+                    g.circle(r + 2, -8 + i * 8, 4).fill(accent);
+                }
+                g.rect(-7, -4, 4, 4).fill(0x000000);
+                g.rect(3, -4, 4, 4).fill(0x000000);
+                break;
+            case 'armor':
+                g.rect(-r, -r, r * 2, r * 2).fill(color);
+                g.rect(-r, -3, r * 2, 6).fill(accent);
+                g.rect(-3, -r, 6, r * 2).fill(accent);
+                g.rect(-r * 0.5, -r - 8, r, 8).fill(accent); // Helmet crest
+                break;
+            case 'prism':
+                g.poly([0, -r * 1.2, r, 0, 0, r * 1.2, -r, 0]).fill(color);
+                g.poly([0, -r * 1.2, r, 0, 0, r * 1.2, -r, 0]).stroke({ width: 3, color: accent });
+                g.circle(0, 0, 6).fill(accent);
+                break;
+            case 'giant':
+                g.rect(-r, -r * 1.2, r * 2, r * 2.4).fill(color);
+                g.rect(-r * 0.5, -r * 0.9, r, 8).fill(accent); // Visor
+                g.rect(r, -r * 1.2, 6, r * 2).fill(0x78350f); // Hammer
+                g.rect(r - 10, -r * 1.5, 26, 16).fill(accent);
+                break;
+        }
+    }
+
+    syncBullet(b: Bullet, delta: number) {
+        const view = this.getView(b.id, () => this.drawBullet(b), 10, this.bulletShapeKey(b));
+        view.x = this.lerpX(b);
+        view.y = this.lerpY(b);
+        view.rotation = b.rotation;
+        view.scale.set(b.scale);
+        view.alpha = b.alpha;
+
+        // Beam: redrawn every frame at its current length, flickering
+        if (b.projectileType === 'beam') {
+            const g = view.children[0] as Graphics;
+            g.clear();
+            const len = b.beamLength ?? 0;
+            const w = b.radius * (0.85 + this.rng.cosmetic.next() * 0.3);
+            view.rotation = Math.atan2(b.vy, b.vx); // Heading including wobble
+            g.rect(0, -w, len, w * 2).fill({ color: b.color, alpha: 0.45 });
+            g.rect(0, -w * 0.4, len, w * 0.8).fill({ color: 0xffffff, alpha: 0.9 });
+            g.circle(len, 0, w * 1.3).fill({ color: b.color, alpha: 0.6 });
+            return;
+        }
+
+        // Fire Gourd: plasma redrawn every frame
+        if (b.element === ElementType.FIRE && isBlast(b)) {
+             const g = view.children[0] as Graphics;
+             g.clear();
+             const t = 1 - (b.duration / b.maxDuration);
+             const currentRadius = b.radius * (0.5 + t * 0.5);
+
+             for(let i=0; i<5; i++) {
+                 const offset = this.rng.cosmetic.next() * 10;
+                 const a = this.rng.cosmetic.next() * Math.PI * 2;
+                 const ox = Math.cos(a) * offset;
+                 const oy = Math.sin(a) * offset;
+                 const col = this.rng.cosmetic.next() > 0.5 ? 0xff4500 : 0xffaa00;
+                 g.circle(ox, oy, currentRadius * (0.5 + this.rng.cosmetic.next()*0.5)).fill({color: col, alpha: 0.3});
+             }
+             if (b.aura !== undefined) g.circle(0, 0, currentRadius).stroke({ width: 3, color: b.aura, alpha: 0.6 });
+             return;
+        }
+        if (b.element === ElementType.WIND && isBlast(b)) return;
+        if (b.projectileType === 'stream' || b.projectileType === 'orbit') return; // Too many for trails
+
+        // Water Snake: leaves a fading river behind the head
+        if (b.projectileType === 'water_snake') {
+            view.snakeTimer += delta;
+            if (view.snakeTimer > 2) {
+                const body = new Graphics();
+                const r = 12 * b.scale;
+                body.circle(0,0, r).fill({color: 0x00bfff, alpha: 0.6});
+                body.x = b.x + (this.rng.cosmetic.next()-0.5)*5;
+                body.y = b.y + (this.rng.cosmetic.next()-0.5)*5;
+                this.world.addChild(body);
+
+                this.tempEffects.push({
+                    container: body,
+                    life: 40,
+                    onUpdate: (g, l) => {
+                         g.alpha = l/40;
+                         g.scale.set(1 + (40-l)*0.05);
+                    }
+                });
+                view.snakeTimer = 0;
+            }
+            return;
+        }
+
+        if (b.projectileType !== 'minion' && (b.vx !== 0 || b.vy !== 0)) {
+            view.trailTimer -= delta;
+            if (view.trailTimer <= 0) {
+               if (this.rng.cosmetic.next() > 0.7) {
+                  const p = new Graphics();
+                  p.rect(0,0, 4, 4).fill(b.color);
+                  p.x = b.x; p.y = b.y;
+                  this.world.addChild(p);
+                  this.tempEffects.push({
+                      container: p, life: 15, onUpdate: (g,l) => { g.alpha = l/15; g.rotation += 0.1; }
+                  });
+               }
+               view.trailTimer = 3;
+            }
+        }
+    }
+
+    // Everything drawBullet depends on
+    bulletShapeKey(b: Bullet): string {
+        const key = `bullet:${b.element}:${b.projectileType}:${b.color}:${b.aura ?? ''}`;
+        return b.element === ElementType.WIND ? `${key}:${b.radius}` : key;
+    }
+
+    drawBullet(b: Bullet): Graphics {
+        const g = new Graphics();
+
+        if (b.projectileType === 'beam') {
+             // Drawn per frame in syncBullet
+        }
+        else if (b.projectileType === 'orbit') {
+             g.circle(0, 0, 14).fill({ color: b.color, alpha: 0.35 });
+             g.circle(0, 0, 8).fill(b.color);
+             g.circle(0, 0, 4).fill(0xffffff);
+             g.moveTo(-14, 0); g.lineTo(14, 0); g.stroke({ width: 2, color: 0xffffff, alpha: 0.6 });
+             g.blendMode = 'add';
+        }
+        else if (b.projectileType === 'stream') {
+             g.circle(0, 0, 6).fill({ color: b.color, alpha: 0.8 });
+             g.circle(1, -1, 2).fill({ color: 0xffffff, alpha: 0.8 });
+        }
+        else if (b.element === ElementType.WIND) {
+             const r = b.radius;
+             // Visible Shockwave
+             g.arc(0, 0, r, -0.5, 0.5).stroke({ width: 4, color: 0xffffff, alpha: 0.8 });
+             g.arc(0, 0, r*0.8, -0.4, 0.4).stroke({ width: 2, color: 0xa5f3fc, alpha: 0.5 });
+        }
+        else if (b.element === ElementType.FIRE) {
+             // Drawn per frame in syncBullet
+        }
+        else if (b.projectileType === 'water_snake') {
+             g.circle(0,0, 8).fill(0xa5f3fc); // Head
+             g.circle(0,0, 12).stroke({width: 2, color: 0xffffff, alpha: 0.5});
+        }
+        else if (b.projectileType === 'minion') {
+            g.rect(-2, -20, 4, 60).fill(0x52525b);
+            g.rect(-3, 30, 6, 5).fill(0xd4d4d8);
+            g.moveTo(0, -20); g.lineTo(-10, -30); g.lineTo(10, -30); g.fill(0xffd700);
+            g.beginPath();
+            g.moveTo(0, -30); g.lineTo(-4, -80); g.lineTo(4, -80); g.fill(0xe2e8f0);
+            g.moveTo(-8, -30); g.quadraticCurveTo(-20, -40, -12, -60); g.lineTo(-8, -30); g.fill(0xe2e8f0);
+            g.moveTo(8, -30); g.quadraticCurveTo(20, -40, 12, -60); g.lineTo(8, -30); g.fill(0xe2e8f0);
+        }
+        else if (b.projectileType === 'projectile') {
+            g.circle(0,0, 5).fill(0xffffff);
+            g.circle(0,0, 8).fill({ color: b.color, alpha: 0.6 });
+            g.blendMode = 'add';
+        }
+
+        // Evolved artifacts: a halo around every shot
+        if (b.aura !== undefined && b.projectileType !== 'beam' && !isBlast(b)) {
+            g.circle(0, 0, 18).stroke({ width: 3, color: b.aura, alpha: 0.7 });
+        }
+        return g;
+    }
+
+    syncHazard(h: Hazard) {
+        if (h.kind === 'shot') {
+            const view = this.getView(h.id, () => {
+                const g = new Graphics();
+                g.circle(0, 0, h.radius + 3).fill({ color: h.color, alpha: 0.5 });
+                g.circle(0, 0, h.radius).fill(h.color);
+                g.circle(0, 0, h.radius * 0.4).fill(0xffffff);
+                return g;
+            }, 20, `hazard:shot:${h.radius}:${h.color}`);
+            view.x = this.lerpX(h);
+            view.y = this.lerpY(h);
+            view.tint = h.faction === 'player' ? 0xa5f3fc : 0xffffff; // Blown back by wind
+            return;
+        }
+
+        // Slam telegraph: the marked circle fills up until it lands
+        const view = this.getView(h.id, () => new Graphics(), 1);
+        view.x = h.x;
+        view.y = h.y;
+        const g = view.children[0] as Graphics;
+        g.clear();
+        const t = 1 - h.life / h.maxLife;
+        g.circle(0, 0, h.radius).fill({ color: 0xff0000, alpha: 0.12 });
+        g.circle(0, 0, h.radius * t).fill({ color: h.color, alpha: 0.3 });
+        g.circle(0, 0, h.radius).stroke({ width: 2, color: 0xff0000, alpha: 0.8 });
+    }
+
+    syncOrb(orb: XPOrb) {
+        const view = this.getView(orb.id, () => {
+            const { color, size } = XP_TIER_STYLE[orb.tier];
+            const g = new Graphics();
+            g.poly([0, -size, size, 0, 0, size, -size, 0]).fill(color);
+            // Add glow for high tiers
+            if (orb.tier >= 3) g.circle(0,0, size+2).stroke({width: 1, color: 0xffffff, alpha: 0.5});
+            return g;
+        }, 10, `orb:${orb.tier}`);
+        view.x = this.lerpX(orb);
+        view.y = this.lerpY(orb);
+    }
+
+    syncObstacle(o: Obstacle) {
+        const view = this.getView(o.id, () => {
+            const g = new Graphics();
+            if (o.kind === 'tree') {
+                g.rect(-4, 0, 8, 12).fill(0x5c4033);
+                g.rect(-12, -24, 24, 24).fill(0x228b22);
+            } else if (o.kind === 'rock') {
+                g.rect(-10, -5, 20, 10).fill(0x555555);
+                g.rect(-5, -10, 10, 5).fill(0x777777);
+            } else {
+                g.rect(-10, -30, 20, 60).fill(0x8b4513);
+            }
+            return g;
+        }, 5);
+        view.x = o.x;
+        view.y = o.y;
+    }
+
+    // --- EFFECTS ---
+    updateEffects(delta: number) {
+        this.updateParticles(delta);
+        this.updateFloatingTexts(delta);
+        this.updateTempEffects(delta);
+    }
+
+    updateParticles(delta: number) {
+        for (let i = this.particles.length - 1; i >= 0; i--) {
+            const p = this.particles[i];
+            if (!p.isStatic) {
+                p.x += p.vx * delta;
+                p.y += p.vy * delta;
+            }
+            p.alpha -= 0.03 * delta;
+            p.scale.x *= 0.95;
+            p.scale.y *= 0.95;
+            p.life -= delta;
+
+            if (p.life <= 0 || p.alpha <= 0) {
+                this.releaseParticle(p);
+                this.particles.splice(i, 1);
+            }
+        }
+    }
+
+    updateFloatingTexts(delta: number) {
+        for (let i = this.floatingTexts.length - 1; i >= 0; i--) {
+            const ft = this.floatingTexts[i];
+            ft.life -= delta;
+            ft.y += ft.velocityY * delta;
+            ft.container.y = ft.y;
+            ft.container.alpha = ft.life / 30; // Fade out
+
+            if (ft.life <= 0) {
+                this.releaseText(ft.container);
+                this.floatingTexts.splice(i, 1);
+            }
+        }
+    }
+
+    updateTempEffects(delta: number) {
+        for (let i = this.tempEffects.length - 1; i >= 0; i--) {
+            const ef = this.tempEffects[i];
+            ef.life -= delta;
+            ef.onUpdate(ef.container, ef.life);
+
+            if (ef.life <= 0) {
+                ef.container.parent?.removeChild(ef.container);
+                ef.container.destroy();
+                this.tempEffects.splice(i, 1);
+            }
+        }
+    }
+
+    spawnText(text: string, x: number, y: number, color: number) {
+        if (this.floatingTexts.length > this.poolConfig.maxFloatingTexts) return;
+
+        const t = this.textPool.acquire();
+        t.text = text;
+        t.tint = color;
+        t.alpha = 1;
+        t.x = x;
+        t.y = y;
+        this.world.addChild(t);
+
+        this.floatingTexts.push({
+            container: t,
+            x: x,
+            y: y,
+            life: 40,
+            velocityY: -1
+        });
+    }
+
+    spawnDamageNumber(dmg: number, x: number, y: number) {
+        this.damageTextCooldown--;
+        if (this.damageTextCooldown <= 0 || dmg > 50) {
+            this.spawnText(Math.round(dmg).toString(), x, y, 0xffffff);
+            this.damageTextCooldown = 2;
+        }
+    }
+
+    spawnParticle(x: number, y: number, color: number, count = 3, upward = false) {
+        if (this.particles.length > this.poolConfig.maxParticles) return;
+
+        for(let i=0; i<count; i++) {
+            const p = this.particlePool.acquire();
+            p.tint = color;
+            p.alpha = 1;
+            p.scale.set(1);
+            p.x = x;
+            p.y = y;
+            const cosmetic = this.rng.cosmetic;
+            if (upward) {
+                p.vx = (cosmetic.next()-0.5) * 2;
+                p.vy = -cosmetic.next() * 3 - 1;
+            } else {
+                p.vx = (cosmetic.next()-0.5) * 4;
+                p.vy = (cosmetic.next()-0.5) * 4;
+            }
+            p.life = 30;
+            p.maxLife = 30;
+            p.isStatic = false;
+
+            this.particles.push(p);
+            this.world.addChild(p);
+        }
+    }
+
+    drawLightning(x1: number, y1: number, x2: number, y2: number, color: number, giantCount: number, isWobble: boolean) {
+        const g = new Graphics();
+        const dist = Math.hypot(x2-x1, y2-y1);
+        const steps = Math.max(3, Math.floor(dist / 15));
+
+        g.moveTo(x1, y1);
+
+        // Jagged line
+        for(let i=1; i<steps; i++) {
+            const t = i / steps;
+            const targetX = x1 + (x2-x1)*t;
+            const targetY = y1 + (y2-y1)*t;
+            // Wobble increases jitter for lightning
+            const jitter = isWobble ? 40 : 20;
+            const px = targetX + (this.rng.cosmetic.next()-0.5)*jitter;
+            const py = targetY + (this.rng.cosmetic.next()-0.5)*jitter;
+            g.lineTo(px, py);
+        }
+        g.lineTo(x2, y2);
+
+        // Giant increases thickness
+        const thickness = 3 + giantCount * 2;
+        g.stroke({ width: thickness, color: 0xffffff, alpha: 1 });
+        g.stroke({ width: thickness * 2, color: color, alpha: 0.4 }); // Glow
+
+        this.world.addChild(g);
+
+        this.tempEffects.push({
+            container: g,
+            life: 6,
+            onUpdate: (gfx, life) => { gfx.alpha = life/6; }
+        });
+    }
+
+    drawStorm(x: number, y: number, radius: number) {
+        const duration = 40; // frames
+
+        const g = new Graphics();
+        g.x = x; g.y = y;
+        g.blendMode = 'add';
+        const cosmetic = this.rng.cosmetic;
+        this.world.addChild(g);
+
+        this.tempEffects.push({
+            container: g,
+            life: duration,
+            onUpdate: (gfx, l) => {
+                gfx.clear();
+                // Fade out
+                const alpha = l / duration;
+
+                // Draw chaotic lightning
+                const count = 5 + Math.floor(cosmetic.next() * 5);
+                for(let i=0; i<count; i++) {
+                    // Random bolts within circle
+                    const angle = cosmetic.next() * Math.PI * 2;
+                    const r = cosmetic.next() * radius;
+                    const sx = Math.cos(angle) * (r * 0.2); // Start near center
+                    const sy = Math.sin(angle) * (r * 0.2);
+                    const ex = Math.cos(angle) * r;
+                    const ey = Math.sin(angle) * r;
+
+                    // Jagged line function locally
+                    gfx.moveTo(sx, sy);
+                    const segments = 4;
+                    for(let j=1; j<segments; j++) {
+                        const t = j/segments;
+                        const jx = sx + (ex-sx)*t + (cosmetic.next()-0.5)*20;
+                        const jy = sy + (ey-sy)*t + (cosmetic.next()-0.5)*20;
+                        gfx.lineTo(jx, jy);
+                    }
+                    gfx.lineTo(ex, ey);
+
+                    const isGold = cosmetic.next() > 0.5;
+                    const color = isGold ? 0xffd700 : 0x00bfff;
+                    gfx.stroke({ width: 2, color: color, alpha: alpha });
+                }
+
+                // Outer glow
+                gfx.circle(0,0, radius).stroke({width: 1, color: 0xffffff, alpha: alpha * 0.2});
+            }
+        });
+    }
+
+    drawSlam(x: number, y: number, radius: number, color: number) {
+        const duration = 20;
+        const g = new Graphics();
+        g.x = x; g.y = y;
+        this.world.addChild(g);
+        this.spawnParticle(x, y, color, 12);
+
+        this.tempEffects.push({
+            container: g,
+            life: duration,
+            onUpdate: (gfx, l) => {
+                const t = 1 - l / duration;
+                gfx.clear();
+                gfx.circle(0, 0, radius * (0.6 + t * 0.4)).stroke({ width: 8 * (1 - t) + 1, color, alpha: 1 - t });
+            }
+        });
+    }
+
+    // Full-screen tint, drawn on the stage so it ignores the camera
+    screenFlash(color: number) {
+        const flash = new Graphics();
+        flash.rect(0,0, SCREEN_WIDTH, SCREEN_HEIGHT).fill({color, alpha: 0.2});
+        flash.blendMode = 'add';
+        this.app.stage.addChild(flash);
+
+        this.tempEffects.push({
+            container: flash,
+            life: 30,
+            onUpdate: (g, life) => { g.alpha = (life/30) * 0.4; }
+        });
+    }
+
+    drawMoveMarker(x: number, y: number) {
+        const marker = new Graphics();
+        marker.rect(-2, -2, 4, 4).fill(0xffffff);
+        marker.x = x;
+        marker.y = y;
+        this.world.addChild(marker);
+
+        this.tempEffects.push({
+            container: marker,
+            life: 15,
+            onUpdate: (g, l) => { g.alpha = l / 15; }
+        });
+    }
+
+    destroy() {
+        this.particlePool.drain();
+        this.textPool.drain();
+        this.viewPools.forEach(pool => pool.drain());
+        try {
+            this.app.destroy({ removeView: true } as any);
+        } catch(e) { console.error(e) }
+    }
+}
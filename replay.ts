@@ -0,0 +1,145 @@
+
+import { CardDef, MapType, SpellLayout } from './types';
+import { ENGINE_VERSION } from './constants';
+import { WAVE_SCRIPTS, findWaveScript, waveScriptHash } from './waves';
+
+// --- Replays ---
+// A run is fully described by its seed plus the inputs fed to the engine on each tick.
+// The recorder captures them, the player feeds them back in the same order.
+
+export const REPLAY_VERSION = 4;
+
+export type ReplayInput =
+    | { kind: 'joystick'; x: number; y: number }
+    | { kind: 'moveTo'; x: number; y: number }        // World coords from tap-to-move
+    | { kind: 'aim'; x: number; y: number }           // Pointer offset from the player
+    | { kind: 'autoAim'; enabled: boolean }
+    | { kind: 'pickCard'; card: CardDef }             // Level-up choice (also resumes)
+    | { kind: 'addCard'; card: CardDef }              // GM add
+    | { kind: 'removeCard'; index: number }           // GM remove
+    | { kind: 'setWave'; wave: number }               // GM wave skip
+    | { kind: 'reorder'; order: string[]; layout: SpellLayout } // Card IDs and rows after SpellBoard edits
+    | { kind: 'fuse'; cardIds: string[] };            // Copies fused on the pause / level-up screen
+
+export interface ReplayEvent {
+    tick: number; // Applied before this tick is simulated
+    input: ReplayInput;
+}
+
+export interface ReplayFile {
+    version: number;
+    engineVersion: string;
+    seed: number;
+    mapType: MapType;
+    waveScriptId: string;   // See waves.ts
+    waveScriptHash: string; // Of that script when the run started
+    recordedAt: string;
+    ticks: number; // Fixed-step ticks simulated
+    events: ReplayEvent[];
+}
+
+// Inputs that stream continuously; only the last value per tick matters
+const COALESCED_KINDS = new Set<ReplayInput['kind']>(['joystick', 'aim']);
+
+export class ReplayRecorder {
+    private file: ReplayFile;
+
+    constructor(seed: number, mapType: MapType, waveScriptId: string, waveScriptHash: string) {
+        this.file = {
+            version: REPLAY_VERSION,
+            engineVersion: ENGINE_VERSION,
+            seed,
+            mapType,
+            waveScriptId,
+            waveScriptHash,
+            recordedAt: new Date().toISOString(),
+            ticks: 0,
+            events: []
+        };
+    }
+
+    get tickCount() {
+        return this.file.ticks;
+    }
+
+    get waveScriptHash() {
+        return this.file.waveScriptHash;
+    }
+
+    recordTick() {
+        this.file.ticks++;
+    }
+
+    record(input: ReplayInput) {
+        const tick = this.tickCount;
+        const last = this.file.events[this.file.events.length - 1];
+        if (last && last.tick === tick && last.input.kind === input.kind && COALESCED_KINDS.has(input.kind)) {
+            last.input = input;
+            return;
+        }
+        this.file.events.push({ tick, input });
+    }
+
+    // Snapshot, so the recording can continue after an export
+    finish(): ReplayFile {
+        return {
+            ...this.file,
+            events: this.file.events.map(e => ({ ...e }))
+        };
+    }
+}
+
+export class ReplayPlayer {
+    readonly file: ReplayFile;
+    private cursor = 0;
+
+    constructor(file: ReplayFile) {
+        this.file = file;
+    }
+
+    get tickCount() {
+        return this.file.ticks;
+    }
+
+    // All inputs due up to (and including) the given tick, in recorded order
+    takeInputs(tick: number): ReplayInput[] {
+        const due: ReplayInput[] = [];
+        while (this.cursor < this.file.events.length && this.file.events[this.cursor].tick <= tick) {
+            due.push(this.file.events[this.cursor].input);
+            this.cursor++;
+        }
+        return due;
+    }
+}
+
+export const serializeReplay = (file: ReplayFile): string => JSON.stringify(file);
+
+export const parseReplay = (text: string): ReplayFile => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error("Replay file is not valid JSON");
+    }
+
+    if (!data || typeof data !== 'object' || data.version === undefined) {
+        throw new Error("Not a replay file");
+    }
+    if (data.version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay format v${data.version} (expected v${REPLAY_VERSION})`);
+    }
+    if (data.engineVersion !== ENGINE_VERSION) {
+        throw new Error(`Replay was recorded on engine ${data.engineVersion}, this is ${ENGINE_VERSION}`);
+    }
+    if (typeof data.seed !== 'number' || typeof data.ticks !== 'number' || !Array.isArray(data.events)) {
+        throw new Error("Replay file is corrupted");
+    }
+    if (!WAVE_SCRIPTS.has(data.waveScriptId)) {
+        throw new Error(`Replay uses wave script "${data.waveScriptId}", which is not loaded`);
+    }
+    if (data.waveScriptHash !== waveScriptHash(findWaveScript(data.waveScriptId))) {
+        throw new Error(`Wave script "${data.waveScriptId}" has changed since this replay was recorded`);
+    }
+
+    return data as ReplayFile;
+};
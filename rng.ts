@@ -0,0 +1,87 @@
+
+// --- Seeded Random ---
+// Every roll that can change the outcome of a run goes through a seeded stream,
+// so the same seed plus the same inputs always plays out the same way.
+
+/** Integer mixer (same idea as the old per-chunk hash), folded over any number of keys. */
+export const hashSeed = (...keys: number[]): number => {
+    let seed = 0x9e3779b9;
+    for (const key of keys) {
+        seed ^= Math.imul(key | 0, 374761393);
+        seed = (seed ^ 61) ^ (seed >>> 16);
+        seed = (seed + (seed << 3)) | 0;
+        seed = seed ^ (seed >>> 4);
+        seed = Math.imul(seed, 668265263);
+        seed = seed ^ (seed >>> 15);
+    }
+    return seed >>> 0;
+};
+
+/** Fresh seed for a new run. The only place allowed to touch Math.random. */
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+/** Small, fast PRNG (mulberry32). State is a single uint32 so it serializes trivially. */
+export class Random {
+    state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /** Float in [0, 1) */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /** Float in [min, max) */
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /** Integer in [0, max) */
+    int(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    pick<T>(list: T[]): T {
+        return list[this.int(list.length)];
+    }
+
+    /** Short random id, used for card instances */
+    id(): string {
+        return this.next().toString(36).substr(2, 9);
+    }
+}
+
+/**
+ * Random streams for one run.
+ * - gameplay: spawns, drops, card rolls... anything the simulation depends on.
+ * - cosmetic: particles, jitter, animation phases. Free to be consumed a different
+ *   number of times per run (e.g. capped effects) without desyncing gameplay.
+ */
+export class RngService {
+    seed: number = 0;
+    gameplay: Random;
+    cosmetic: Random;
+
+    constructor(seed: number = randomSeed()) {
+        this.gameplay = new Random(0);
+        this.cosmetic = new Random(0);
+        this.reset(seed);
+    }
+
+    reset(seed: number) {
+        this.seed = seed >>> 0;
+        this.gameplay = new Random(hashSeed(this.seed, 1));
+        this.cosmetic = new Random(hashSeed(this.seed, 2));
+    }
+
+    /** Independent stream for keyed content (map chunks), so generation order doesn't matter. */
+    derive(...keys: number[]): Random {
+        return new Random(hashSeed(this.seed, ...keys));
+    }
+}
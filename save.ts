@@ -0,0 +1,255 @@
+
+import { CardDef, GameState, MapType, PlayerStats, SpellLayout } from './types';
+import { ENGINE_VERSION, findCardTemplate, instantiateCard } from './constants';
+import { cardLevel } from './fusion';
+import { DamageReport, createCardDamage } from './damage';
+import { CHUNK_SIZE, Entity, Obstacle, Simulation, XPOrb, createStarterWeapon } from './simulation';
+import { STATUS_DEFS, StatusMap } from './statuses';
+import { DEFAULT_WAVE_SCRIPT, WAVE_SCRIPTS, findWaveScript, waveScriptHash } from './waves';
+
+// --- Saved Runs ---
+// A snapshot of the run in progress, kept in localStorage so closing the tab doesn't lose it.
+// Unlike replays this stores state, not inputs: bullets, hostile shots and queued casts are
+// dropped (bullets come back on the next weapon cycle), so a resumed run is close to, not
+// identical with, the original.
+
+export const SAVE_VERSION = 6;
+export const SAVE_KEY = 'elemental-survivor.save';
+
+// Cards are stored by catalogue id and rebuilt from the current card list on load,
+// so balance changes apply to old saves and removed cards simply drop out.
+export interface SavedCard {
+    id: string;         // Instance id (layout, cooldowns and damage stats are keyed by it)
+    templateId: string;
+    level?: number;     // Missing in saves from before card levels
+}
+
+export interface SaveFile {
+    version: number;
+    engineVersion: string;
+    savedAt: string;
+    seed: number;
+    mapType: MapType;
+    waveScriptId: string;    // See waves.ts
+    waveScriptHash?: string; // Of that script when saved; missing in saves from before scripts were picked
+    layout: SpellLayout;
+    run: {
+        state: GameState;
+        stats: Omit<PlayerStats, 'inventory'> & { inventory: SavedCard[] };
+        levelUpOptions: SavedCard[];
+        preLevelUpTimer: number;
+        wave: number;
+        waveTotalEnemies: number;
+        waveEnemiesSpawned: number;
+        waveDelayTimer: number;
+        waveTicks?: number; // Missing in saves from before wave scripts
+        gameTime: number;
+        weaponCooldowns: { [cardId: string]: number };
+        player: Entity;
+        enemies: Entity[];
+        xpOrbs: XPOrb[];
+        obstacles: Obstacle[];
+        generatedChunks: string[];
+        nextObjectId: number;
+        rngState: { gameplay: number; cosmetic: number };
+        isAutoAim: boolean;
+        kills: number;
+        damage: DamageReport;
+    };
+}
+
+// Renamed catalogue cards: old template id -> current one
+export const CARD_ALIASES: { [oldTemplateId: string]: string } = {};
+
+// Each entry upgrades a save of that version by one step
+const MIGRATIONS: { [fromVersion: number]: (data: any) => any } = {
+    // v2: obstacles remember their chunk so INFINITE maps can unload them
+    1: (data) => {
+        data.run.obstacles.forEach((o: any) => {
+            o.chunk = `${Math.floor(o.x / CHUNK_SIZE)},${Math.floor(o.y / CHUNK_SIZE)}`;
+        });
+        return { ...data, version: 2 };
+    },
+    // v3: the per-card damage totals became a full damage report
+    2: (data) => {
+        const { damageByCard, ...run } = data.run;
+        const byCard: DamageReport['byCard'] = {};
+        Object.entries(damageByCard as { [cardId: string]: number }).forEach(([id, total]) => {
+            byCard[id] = { ...createCardDamage(id), total };
+        });
+        return { ...data, version: 3, run: { ...run, damage: { byCard } } };
+    },
+    // v4: reactions in the damage report are keyed by their id in the reaction table
+    3: (data) => {
+        Object.values(data.run.damage.byCard as DamageReport['byCard']).forEach(card => {
+            card.byReaction = Object.fromEntries(Object.entries(card.byReaction).map(([r, dmg]) => [r.toLowerCase(), dmg]));
+        });
+        return { ...data, version: 4 };
+    },
+    // v5: status flags and timers became timed, stacking statuses
+    4: (data) => {
+        const toStatuses = (e: any) => {
+            const statuses: StatusMap = {};
+            if (e.isBurning) statuses.BURNING = { ticks: STATUS_DEFS.BURNING.duration, stacks: 1, sourceId: e.burnSourceId };
+            if (e.isWet) statuses.WET = { ticks: STATUS_DEFS.WET.duration, stacks: 1 };
+            if (e.hitByLightningYellow > 0) statuses.CHARGED_YELLOW = { ticks: e.hitByLightningYellow, stacks: 1 };
+            if (e.hitByLightningBlue > 0) statuses.CHARGED_BLUE = { ticks: e.hitByLightningBlue, stacks: 1 };
+            const { isBurning, burnTimer, burnSourceId, isWet, wetTimer, isElectrified, hitByLightningYellow, hitByLightningBlue, ...rest } = e;
+            return { ...rest, statuses };
+        };
+        const run = { ...data.run, player: toStatuses(data.run.player), enemies: data.run.enemies.map(toStatuses) };
+        return { ...data, version: 5, run };
+    },
+    // v6: runs pick their wave script; before that every run used the default one
+    5: (data) => ({ ...data, version: 6, waveScriptId: DEFAULT_WAVE_SCRIPT })
+};
+
+const saveCard = (card: CardDef): SavedCard => ({ id: card.id, templateId: card.templateId ?? card.id, level: cardLevel(card) });
+
+const loadCard = (saved: SavedCard): CardDef | null => {
+    const templateId = CARD_ALIASES[saved.templateId] ?? saved.templateId;
+    if (templateId === 'starter') return { ...createStarterWeapon(), id: saved.id };
+    const template = findCardTemplate(templateId);
+    return template ? instantiateCard(template, saved.id, saved.level ?? 1) : null;
+};
+
+const loadCards = (saved: SavedCard[]): CardDef[] =>
+    saved.map(loadCard).filter(Boolean) as CardDef[];
+
+// Plain-data copy, nothing in the save may alias live simulation objects
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const captureRun = (sim: Simulation): SaveFile => ({
+    version: SAVE_VERSION,
+    engineVersion: ENGINE_VERSION,
+    savedAt: new Date().toISOString(),
+    seed: sim.rng.seed,
+    mapType: sim.mapType,
+    waveScriptId: sim.waveScriptId,
+    waveScriptHash: waveScriptHash(findWaveScript(sim.waveScriptId)),
+    layout: clone(sim.spellLayout),
+    run: {
+        state: sim.state,
+        stats: { ...clone({ ...sim.stats, inventory: [] }), inventory: sim.stats.inventory.map(saveCard) },
+        levelUpOptions: sim.levelUpOptions.map(saveCard),
+        preLevelUpTimer: sim.preLevelUpTimer,
+        wave: sim.wave,
+        waveTotalEnemies: sim.waveTotalEnemies,
+        waveEnemiesSpawned: sim.waveEnemiesSpawned,
+        waveDelayTimer: sim.waveDelayTimer,
+        waveTicks: sim.waveTicks,
+        gameTime: sim.gameTime,
+        weaponCooldowns: { ...sim.weaponCooldowns },
+        player: clone(sim.player),
+        enemies: clone(sim.enemies.filter(e => !e.isDead)),
+        xpOrbs: clone(sim.xpOrbs.filter(o => !o.isCollected)),
+        obstacles: clone(sim.obstacles),
+        generatedChunks: [...sim.generatedChunks],
+        nextObjectId: sim.nextObjectId,
+        rngState: { gameplay: sim.rng.gameplay.state, cosmetic: sim.rng.cosmetic.state },
+        isAutoAim: sim.isAutoAim,
+        kills: sim.kills,
+        damage: clone(sim.damage)
+    }
+});
+
+// Puts the simulation back into the saved state. Returns the state to resume in; live play
+// comes back PAUSED so the player gets a moment before enemies move.
+export const restoreRun = (sim: Simulation, save: SaveFile): GameState => {
+    const run = save.run;
+    sim.mapType = save.mapType;
+    sim.waveScriptId = save.waveScriptId;
+    sim.rng.reset(save.seed);
+    sim.rng.gameplay.state = run.rngState.gameplay;
+    sim.rng.cosmetic.state = run.rngState.cosmetic;
+
+    sim.stats = { ...clone(run.stats), inventory: loadCards(run.stats.inventory) };
+    sim.levelUpOptions = loadCards(run.levelUpOptions);
+    sim.spellLayout = clone(save.layout);
+    sim.preLevelUpTimer = run.preLevelUpTimer;
+    sim.wave = run.wave;
+    sim.waveTotalEnemies = run.waveTotalEnemies;
+    sim.waveEnemiesSpawned = run.waveEnemiesSpawned;
+    sim.waveDelayTimer = run.waveDelayTimer;
+    sim.waveTicks = run.waveTicks ?? 0;
+    sim.gameTime = run.gameTime;
+    sim.weaponCooldowns = { ...run.weaponCooldowns };
+    sim.player = clone(run.player);
+    sim.enemies = clone(run.enemies);
+    sim.bullets = [];
+    sim.hazards = [];
+    sim.xpOrbs = clone(run.xpOrbs);
+    sim.obstacles = clone(run.obstacles);
+    sim.generatedChunks = new Set(run.generatedChunks);
+    sim.nextObjectId = run.nextObjectId;
+    sim.delayedActions = [];
+    sim.isAutoAim = run.isAutoAim;
+    sim.kills = run.kills;
+    sim.damage = clone(run.damage);
+    sim.indexEnemies();
+    sim.indexObstacles();
+
+    if (run.state === GameState.LEVEL_UP && sim.levelUpOptions.length > 0) return GameState.LEVEL_UP;
+    if (run.state === GameState.PRE_LEVEL_UP) return GameState.PRE_LEVEL_UP;
+    return GameState.PAUSED;
+};
+
+export const serializeSave = (save: SaveFile): string => JSON.stringify(save);
+
+export const parseSave = (text: string): SaveFile => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error("Save is not valid JSON");
+    }
+
+    if (!data || typeof data !== 'object' || typeof data.version !== 'number') {
+        throw new Error("Not a save file");
+    }
+    if (data.version > SAVE_VERSION) {
+        throw new Error(`Save format v${data.version} is newer than this build (v${SAVE_VERSION})`);
+    }
+    while (data.version < SAVE_VERSION) {
+        const migrate = MIGRATIONS[data.version];
+        if (!migrate) throw new Error(`No migration from save format v${data.version}`);
+        data = migrate(data);
+    }
+    if (typeof data.seed !== 'number' || !data.run || !Array.isArray(data.run.enemies)) {
+        throw new Error("Save file is corrupted");
+    }
+    if (!WAVE_SCRIPTS.has(data.waveScriptId)) {
+        throw new Error(`Save uses wave script "${data.waveScriptId}", which is not loaded`);
+    }
+    if (data.waveScriptHash !== undefined && data.waveScriptHash !== waveScriptHash(findWaveScript(data.waveScriptId))) {
+        throw new Error(`Wave script "${data.waveScriptId}" has changed since the run was saved`);
+    }
+
+    return data as SaveFile;
+};
+
+// --- localStorage ---
+const storage = (): Storage | null => typeof localStorage !== 'undefined' ? localStorage : null;
+
+export const writeSave = (save: SaveFile) => {
+    try {
+        storage()?.setItem(SAVE_KEY, serializeSave(save));
+    } catch (e) {
+        console.warn("Saving the run failed", e); // Quota or private mode, the run goes on
+    }
+};
+
+export const readSave = (): SaveFile | null => {
+    const text = storage()?.getItem(SAVE_KEY);
+    if (!text) return null;
+    try {
+        return parseSave(text);
+    } catch (e) {
+        console.warn("Ignoring unreadable save", e);
+        return null;
+    }
+};
+
+export const clearSave = () => {
+    storage()?.removeItem(SAVE_KEY);
+};
@@ -0,0 +1,148 @@
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { CardDef, GameState, MapType } from '../types';
+import { ALL_CARDS, instantiateCard, registerCardPack } from '../constants';
+import { registerReactionPack } from '../reactions';
+import { DEFAULT_WAVE_SCRIPT, WAVE_SCRIPTS, registerWaveScript } from '../waves';
+import { randomSeed } from '../rng';
+import { Simulation, TICKS_PER_SECOND } from '../simulation';
+import { rankCards, reportTotal } from '../damage';
+
+// --- Headless Balance Runner ---
+// Steps the simulation without a canvas, driven by a scripted bot, and prints how the build did.
+//
+//   npm run simulate -- --cards art_fire,eff_fan_p --ticks 36000 --runs 5 --seed 42
+//
+// --cards   Card template ids (see cards/*.json) added after the starter weapon
+// --ticks   Max ticks per run (60 ticks = 1 second)
+// --runs    Number of runs, seeds count up from --seed
+// --bot     kite (default) | idle
+// --picks   first (default, take the first level-up offer) | none (keep the given inventory)
+// --map     fixed (default, walled arena) | infinite
+// --waves   Wave script id (see waves/), default "default"
+
+const parseArgs = (argv: string[]) => {
+    const args: { [key: string]: string } = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith('--')) {
+            args[argv[i].slice(2)] = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+        }
+    }
+    return args;
+};
+
+// Runs from the nearby crowd, otherwise circles the origin so waves keep arriving
+const kiteBot = (sim: Simulation) => {
+    let fx = 0, fy = 0;
+    for (const e of sim.enemies) {
+        const dx = sim.player.x - e.x;
+        const dy = sim.player.y - e.y;
+        const d = Math.hypot(dx, dy);
+        if (d > 0 && d < 250) {
+            fx += dx / (d * d);
+            fy += dy / (d * d);
+        }
+    }
+    if (fx === 0 && fy === 0) {
+        const angle = Math.atan2(sim.player.y, sim.player.x) + Math.PI / 2;
+        fx = Math.cos(angle) - sim.player.x * 0.001;
+        fy = Math.sin(angle) - sim.player.y * 0.001;
+    }
+    const len = Math.hypot(fx, fy) || 1;
+    return { x: fx / len, y: fy / len };
+};
+
+// Same packs the browser build picks up (base.json is already built in)
+const loadExtraPacks = (folder: string, register: (data: unknown, source: string) => void) => {
+    const dir = fileURLToPath(new URL(`../${folder}`, import.meta.url));
+    readdirSync(dir)
+        .filter(file => file.endsWith('.json') && file !== 'base.json')
+        .sort()
+        .forEach(file => register(JSON.parse(readFileSync(join(dir, file), 'utf8')), `${folder}/${file}`));
+};
+
+const resolveCards = (ids: string[]): CardDef[] => ids.map((id, i) => {
+    const template = ALL_CARDS.find(c => c.id === id);
+    if (!template) throw new Error(`Unknown card id "${id}"`);
+    return instantiateCard(template, `${template.id}#${i}`);
+});
+
+const formatTime = (ticks: number) => {
+    const seconds = Math.floor(ticks / TICKS_PER_SECOND);
+    return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const runOnce = (seed: number, cards: CardDef[], maxTicks: number, bot: string, picks: string, mapType: MapType, waveScript: string) => {
+    const sim = new Simulation();
+    sim.start(mapType, seed, waveScript);
+    cards.forEach(card => sim.applyInput({ kind: 'addCard', card }));
+
+    let ticks = 0;
+    while (ticks < maxTicks) {
+        if (sim.state === GameState.LEVEL_UP) {
+            if (picks === 'none') sim.setState(GameState.PLAYING);
+            else sim.applyInput({ kind: 'pickCard', card: sim.levelUpOptions[0] });
+        }
+        if (sim.state === GameState.GAME_OVER || sim.state === GameState.VICTORY) break;
+
+        if (bot === 'kite') {
+            const move = kiteBot(sim);
+            sim.applyInput({ kind: 'joystick', x: move.x, y: move.y });
+        }
+
+        sim.step();
+        ticks++;
+    }
+
+    return { seed, sim, ticks };
+};
+
+const main = () => {
+    const args = parseArgs(process.argv.slice(2));
+    const baseSeed = args.seed ? Number(args.seed) : randomSeed();
+    const maxTicks = Number(args.ticks || 36000);
+    const runs = Number(args.runs || 1);
+    const bot = args.bot || 'kite';
+    const picks = args.picks || 'first';
+    const mapType = args.map === 'infinite' ? MapType.INFINITE : MapType.FIXED;
+    const cardIds = args.cards ? args.cards.split(',').filter(Boolean) : [];
+    const waveScript = args.waves || DEFAULT_WAVE_SCRIPT;
+
+    let cards: CardDef[];
+    try {
+        loadExtraPacks('cards', registerCardPack);
+        loadExtraPacks('reactions', registerReactionPack);
+        loadExtraPacks('waves', registerWaveScript);
+        if (!WAVE_SCRIPTS.has(waveScript)) throw new Error(`Unknown wave script "${waveScript}"`);
+        cards = resolveCards(cardIds);
+    } catch (e: any) {
+        console.error(e.message);
+        process.exit(1);
+    }
+
+    const results = [];
+    for (let i = 0; i < runs; i++) {
+        const { seed, sim, ticks } = runOnce(baseSeed + i, cards, maxTicks, bot, picks, mapType, waveScript);
+        results.push({ sim, ticks });
+
+        const outcome = sim.state === GameState.GAME_OVER ? 'died' : sim.state === GameState.VICTORY ? 'won' : 'alive';
+        console.log(`seed ${seed} | ${outcome} at ${formatTime(ticks)} (${ticks} ticks) | wave ${sim.wave} | level ${sim.stats.level} | kills ${sim.kills} | hp ${Math.ceil(sim.player.hp)}/${Math.ceil(sim.player.maxHp)}`);
+
+        // Reactions (see reactions/) and burning count for the card that set them off
+        const total = reportTotal(sim.damage) || 1;
+        rankCards(sim.damage).forEach(([id, card]) => {
+            const label = `${card.name} (${id})`;
+            const reactions = Object.entries(card.byReaction).map(([r, dmg]) => `${r} ${Math.round(dmg)}`).join(', ');
+            console.log(`    ${label.padEnd(32)} ${Math.round(card.total).toString().padStart(10)}  ${(card.total / total * 100).toFixed(1).padStart(5)}%  ${(card.total / (ticks / TICKS_PER_SECOND)).toFixed(1).padStart(8)} dps  ${String(card.kills).padStart(5)} kills  ${Math.round(card.overkill).toString().padStart(8)} overkill${reactions ? `  (${reactions})` : ''}`);
+        });
+    }
+
+    if (runs > 1) {
+        const avg = (f: (r: typeof results[0]) => number) => (results.reduce((a, r) => a + f(r), 0) / runs).toFixed(1);
+        console.log(`\navg over ${runs} runs | survived ${avg(r => r.ticks / TICKS_PER_SECOND)}s | wave ${avg(r => r.sim.wave)} | kills ${avg(r => r.sim.kills)}`);
+    }
+};
+
+main();
@@ -0,0 +1,2502 @@
+
+import { CardDef, CardType, ElementType, GameState, MapType, PlayerStats, Rarity, SpellLayout } from './types';
+import { ALL_EVOLUTIONS, evolutionResult, findCardTemplate, findEvolution, fusionResult, getRandomCard, instantiateCard, nextLevelCard } from './constants';
+import { EvolutionParts, EvolutionRecipe, evolutionParts, offerableEvolutions } from './evolutions';
+import { cardLevel, isFusion } from './fusion';
+import { DamageReport, DamageSource, createDamageReport, recordHit } from './damage';
+import { ReactionDef, reactionsFor } from './reactions';
+import {
+    ATTUNE_CYCLE, BLINK_RANGE, BLINK_SLAM_RADIUS, BOSS_MIN_COOLDOWN, BossDef, CHARGE_SPEED, DASH_COUNT, DASH_GAP, DASH_SPEED,
+    LUNGE_SPEED, RADIAL_SHOTS, SHIELD_DAMAGE_TAKEN, SHIELD_DURATION, SHOT_LIFE, SHOT_RADIUS, SHOT_SPEED, SLAM_RADIUS,
+    SPIRAL_ARMS, SPIRAL_GAP, SPIRAL_TURN, SPIRAL_VOLLEYS, SPLIT_GENERATIONS, SPLIT_HP, SPLIT_SCALE, SUMMON_COUNT, SUMMON_RING,
+    bossDef, findBossType
+} from './bosses';
+import {
+    AFFIX_DEFS, AFFIX_IDS, AffixId, ELITE_HP, ELITE_LOOT_BONUS, ELITE_SCALE, MAX_AFFIXES, SPLIT_CHILD_HP, SPLIT_CHILD_SCALE,
+    WAVES_PER_AFFIX, affixProduct, affixSum
+} from './affixes';
+import { DEFAULT_WAVE_SCRIPT, MixLayer, SpawnPattern, WaveEnemyType, WaveEvent, WaveScript, WaveSpec, findWaveScript, resolveWave } from './waves';
+import {
+    ELEMENT_STATUS, STATUS_DEFS, STATUS_NAMES, StatusMap, StatusName, StatusResistance, applyStatus, clearStatus,
+    damageTakenMult, expireStatuses, hasStatus, isHeld, speedFactor
+} from './statuses';
+import { RngService } from './rng';
+import { ReplayInput } from './replay';
+import { SpatialHash } from './spatial';
+import { Point, findPath } from './pathing';
+import {
+    ActiveEffect, ArtifactCast, BuffStats, CastFlags, LINE_EXTRA_SHOTS, ORBIT_MAX, groupInventory, isGroupActive,
+    isLightning, isPersistentWeapon, lightningChains, orbitersPerCast, readCastFlags, resolveSpellGroup, spreadAngles
+} from './spells';
+
+// --- Simulation Core ---
+// All game rules live here and only touch plain data, so a run can be stepped
+// without a canvas (see scripts/simulate.ts). Rendering reads this state and
+// listens to the hooks below; it never feeds anything back into the rules.
+
+export type EnemyType = 'slime' | 'bat' | 'skull' | 'eye' | 'boss';
+export type EntityKind = EnemyType | 'player';
+
+// Shorter statuses, per enemy type (see StatusResistance)
+export const ENEMY_STATUS_RESISTANCE: Partial<Record<EnemyType, StatusResistance>> = {
+    boss: { SLOW: 0.5, FREEZE: 0.75, STUN: 0.75, VULNERABLE: 0.25 }
+};
+
+// Enemy types that keep their distance and shoot at the player. A shot is telegraphed:
+// the enemy glows for `windup` ticks before it fires.
+export interface RangedAttack {
+    range: number;    // Stops closing in at this distance, and shoots from within it
+    cooldown: number; // Ticks between shots
+    windup: number;
+    color: number;
+}
+
+export const RANGED_ENEMIES: Partial<Record<EnemyType, RangedAttack>> = {
+    eye: { range: 260, cooldown: 150, windup: 30, color: 0xef4444 }
+};
+
+export interface Entity {
+    id: number;
+    x: number;
+    y: number;
+    prevX: number; // Position at the start of the tick, for render interpolation
+    prevY: number;
+    vx: number;
+    vy: number;
+    knockbackVx: number;
+    knockbackVy: number;
+    hp: number;
+    maxHp: number;
+    isDead: boolean;
+    radius: number;
+    statuses: StatusMap; // See statuses.ts
+
+    enemyType: EntityKind;
+    baseScale: number;     // Size factor the enemy was spawned with
+    hitFlashTimer: number;
+
+    // Boss Props (see bosses.ts)
+    isBoss?: boolean;
+    bossType?: number;
+    bossActionTimer?: number;
+    bossWindup?: number;              // Ticks until the telegraphed attack lands
+    bossAim?: {x: number, y: number}; // Where that attack goes, fixed when the windup starts
+    bossPhase?: number;               // Attacks made so far, for alternating patterns
+    shieldTimer?: number;             // 'shield': ticks left, most damage is soaked meanwhile
+    immuneElement?: ElementType;      // 'attune': hits of this element do nothing
+    splitGeneration?: number;         // 'split': 0 for the boss itself, +1 per split
+
+    // Ranged enemies (see RANGED_ENEMIES)
+    attackTimer?: number; // Ticks until the next shot
+
+    // Elites (see affixes.ts); `warded` elites also use immuneElement
+    affixes?: AffixId[];
+
+    // Player Specific
+    invulnTimer: number;
+    moveTarget?: {x: number, y: number};
+    movePath?: {x: number, y: number}[]; // Tap-to-move waypoints around obstacles, last is moveTarget
+}
+
+export type ArtifactConfig = NonNullable<CardDef['artifactConfig']>;
+
+export interface Bullet {
+    id: number;
+    x: number;
+    y: number;
+    prevX: number; // Also the start of the swept hit test
+    prevY: number;
+    vx: number;
+    vy: number;
+    rotation: number;
+    scale: number;
+    alpha: number;
+    damage: number;
+    element: ElementType;
+    projectileType: ArtifactConfig['projectileType'];
+    duration: number;
+    maxDuration: number;
+    radius: number;
+    ownerId: string;
+    isDead: boolean;
+    // Specific logic
+    isTracking?: boolean;
+    pierce: number;
+    hitList: Set<number>; // Enemy IDs hit
+    color: number;
+
+    // Persistent Weapon State
+    state?: string; // 'IDLE', 'SEEK', 'RETURN', 'ATTACK'
+    target?: Entity | null;
+    orbitAngle?: number;
+    attackTimer?: number;
+
+    // Logic modifiers
+    isWobble?: boolean;
+    wobblePhase?: number;
+    giantCount: number; // Stacking giant effect
+    inflicts?: StatusName[]; // From the artifact, see artifactConfig
+    splash?: { radius: number; share: number };
+    aura?: number;
+    isBoomerang?: boolean;   // 'reverse': turns back to the player halfway through its life
+    isReturning?: boolean;
+    ignoreBlockers?: boolean; // 'ignore': passes through obstacles
+
+    // Orbit
+    orbitRadius?: number; // Resting distance from the player
+    orbitReach?: number;  // Current distance, tracking orbiters swing out to enemies
+    orbitSpeed?: number;  // Radians per tick
+    // Beam (x/y is the origin at the player, rotation the heading)
+    beamRange?: number;
+    beamLength?: number;  // Drawn and hitting length, cut short by obstacles and walls
+    beamOffset?: number;  // Heading relative to the aim, for fanned beams
+}
+
+// Objects enemies fire or leave behind. Shots fly until their life runs out, slams sit
+// on the ground as a telegraph and go off when it does. Both hurt the player, unless a
+// wind hit has blown the shot back: then it belongs to the player and hits enemies.
+export type HazardKind = 'shot' | 'slam';
+export type Faction = 'enemy' | 'player';
+
+export interface Hazard {
+    id: number;
+    kind: HazardKind;
+    x: number;
+    y: number;
+    prevX: number;
+    prevY: number;
+    vx: number;
+    vy: number;
+    radius: number;
+    damage: number;
+    life: number; // Ticks left
+    maxLife: number;
+    color: number;
+    faction: Faction;
+    ownerId?: string; // Card that deflected it, the damage counts for it
+    isDead: boolean;
+}
+
+export interface XPOrb {
+    id: number;
+    x: number;
+    y: number;
+    prevX: number;
+    prevY: number;
+    value: number;
+    isMagnetized?: boolean;
+    isCollected: boolean;
+    tier: number; // 0-5
+}
+
+export type ObstacleKind = 'tree' | 'rock' | 'log';
+
+export interface Obstacle {
+    id: number;
+    x: number;
+    y: number;
+    kind: ObstacleKind;
+    chunk: string; // Chunk key it was generated in, unloading drops the whole chunk
+}
+
+export interface Box {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+// Solid footprint of each kind around its position, matching the shapes drawn in renderer.ts
+export const OBSTACLE_BOUNDS: Record<ObstacleKind, Box> = {
+    tree: { minX: -12, minY: -24, maxX: 12, maxY: 12 },
+    rock: { minX: -10, minY: -10, maxX: 10, maxY: 5 },
+    log: { minX: -10, minY: -30, maxX: 10, maxY: 30 }
+};
+
+// Furthest any footprint reaches from its position, pads obstacle grid queries
+const OBSTACLE_REACH = Math.max(...Object.values(OBSTACLE_BOUNDS).map(b =>
+    Math.hypot(Math.max(-b.minX, b.maxX), Math.max(-b.minY, b.maxY))));
+
+// What a projectile does when it runs into an obstacle. Fire and wind are blasts and
+// always wash over cover, whatever their projectile type.
+export type ObstacleResponse = 'stop' | 'deflect' | 'pass';
+const OBSTACLE_RESPONSE: Record<ArtifactConfig['projectileType'], ObstacleResponse> = {
+    projectile: 'stop',
+    beam: 'stop',
+    stream: 'stop',
+    water_snake: 'deflect',
+    lightning: 'pass',
+    area: 'pass',
+    orbit: 'pass',
+    minion: 'pass',
+    pull_screen: 'pass'
+};
+
+// Enemies start turning when an obstacle is this close ahead
+const AVOID_LOOKAHEAD = 80;
+
+interface DelayedAction {
+    timer: number;
+    action: () => void;
+}
+
+// 'line': the extra shots (see spells.ts) follow this far apart
+const LINE_SPACING = 28;
+// 'line' on lightning: enemies within this distance of the bolt's line are struck in turn
+const LIGHTNING_LANE_WIDTH = 40;
+
+// Orbit: guardians circling the player, re-hitting the same enemy at most this often
+const ORBIT_RADIUS = 80;
+const ORBIT_SPEED = 0.06;
+const ORBIT_REHIT = 20;
+const ORBIT_TRACK_REACH = 120; // Tracking orbiters lunge this much further out at enemies
+// Beam: channelled for BEAM_DURATION ticks, damaging everything in it every BEAM_TICK ticks
+const BEAM_RANGE = 320;
+const BEAM_DURATION = 60;
+const BEAM_TICK = 6;
+const BEAM_TURN_RATE = 0.03; // Radians per tick it sweeps toward the aim, faster when tracking
+// Stream: a spray of short-lived droplets that slow down as they go
+const STREAM_SPREAD = 0.12;
+const STREAM_DRAG = 0.97;
+
+// Level-ups offer an evolution this often once its parts are owned
+const EVOLUTION_OFFER_CHANCE = 0.5;
+// Inputs that change the inventory or the SpellBoard, after which recipes are checked
+const EVOLVING_INPUTS = new Set<ReplayInput['kind']>(['pickCard', 'addCard', 'reorder', 'fuse']);
+
+// Wave spawn patterns (see waves.ts): cluster members land this far around their spot,
+// rings this far from the player
+const CLUSTER_SPREAD = 40;
+const RING_SPAWN_RADIUS = 450;
+
+// Hostile shots blown back by wind fly this much faster
+const DEFLECT_SPEEDUP = 1.5;
+
+// Fire and wind shots are expanding blasts, unless the artifact gives them another shape
+export const isBlast = (b: { element: ElementType, projectileType: ArtifactConfig['projectileType'] }) =>
+    (b.element === ElementType.FIRE || b.element === ElementType.WIND) &&
+    b.projectileType !== 'orbit' && b.projectileType !== 'beam' && b.projectileType !== 'stream';
+
+// Everything the outside world may want to know about. All optional, headless runs pass {}.
+export interface SimulationHooks {
+    stateChanged?: (state: GameState) => void;
+    bossWarning?: (name: string) => void;
+    aimChanged?: (isAuto: boolean) => void;
+    // Gameplay
+    waveStarted?: (wave: number, totalEnemies: number) => void;
+    waveCleared?: (wave: number) => void;
+    enemyKilled?: (e: Entity) => void;
+    damageDealt?: (target: Entity, source: DamageSource, amount: number) => void;
+    playerHit?: (damage: number) => void;
+    cardAdded?: (card: CardDef) => void;
+    levelUp?: (level: number, options: CardDef[]) => void;
+    evolved?: (card: CardDef, recipe: EvolutionRecipe) => void;
+    // Presentation only
+    text?: (text: string, x: number, y: number, color: number) => void;
+    damageNumber?: (dmg: number, x: number, y: number) => void; // High volume, may be throttled
+    particles?: (x: number, y: number, color: number, count: number) => void;
+    lightning?: (x1: number, y1: number, x2: number, y2: number, color: number, giantCount: number, isWobble: boolean) => void;
+    storm?: (x: number, y: number, radius: number) => void;
+    slam?: (x: number, y: number, radius: number, color: number) => void;
+    screenFlash?: (color: number) => void;
+    moveMarker?: (x: number, y: number) => void;
+    waveMessage?: (text: string) => void; // Scripted wave events (see waves.ts)
+}
+
+// Map Chunking
+export const CHUNK_SIZE = 1000;
+export const CHUNK_LOAD_RADIUS = 1;   // INFINITE: chunks kept generated around the player's chunk
+export const CHUNK_UNLOAD_RADIUS = 2; // ...and dropped beyond this, so the world doesn't grow forever
+
+// FIXED maps: square walled arena centred on the origin, enemies come in at the edges
+export const ARENA_HALF_SIZE = 1000;
+const ARENA_SPAWN_POINTS = [
+    [-1, -1], [0, -1], [1, -1],
+    [-1, 0],           [1, 0],
+    [-1, 1],  [0, 1],  [1, 1]
+].map(([x, y]) => ({ x: x * (ARENA_HALF_SIZE - 60), y: y * (ARENA_HALF_SIZE - 60) }));
+
+// Spatial index cell, roughly two enemy diameters
+export const GRID_CELL_SIZE = 64;
+
+// Fixed Timestep: the simulation always advances in 60 Hz ticks, whatever the display rate.
+// Tuning values throughout are "per 60 Hz frame", so one tick is a delta of 1.
+export const TICKS_PER_SECOND = 60;
+export const TICK_DELTA = 1;
+
+// Where along the segment p0->p1 (0..1) a point comes within r of (cx, cy), or null if never.
+// Lets fast bullets hit things they would otherwise skip over between two ticks.
+export const sweepCircle = (x0: number, y0: number, x1: number, y1: number, cx: number, cy: number, r: number): number | null => {
+    const dx = x1 - x0;
+    const dy = y1 - y0;
+    const fx = x0 - cx;
+    const fy = y0 - cy;
+    const c = fx * fx + fy * fy - r * r;
+    if (c <= 0) return 0; // Already overlapping at the start
+
+    const a = dx * dx + dy * dy;
+    if (a === 0) return null;
+    const b = 2 * (fx * dx + fy * dy);
+    const disc = b * b - 4 * a * c;
+    if (disc < 0) return null;
+
+    const t = (-b - Math.sqrt(disc)) / (2 * a);
+    return t >= 0 && t <= 1 ? t : null;
+};
+
+export const obstacleBox = (o: Obstacle, pad = 0): Box => {
+    const b = OBSTACLE_BOUNDS[o.kind];
+    return { minX: o.x + b.minX - pad, minY: o.y + b.minY - pad, maxX: o.x + b.maxX + pad, maxY: o.y + b.maxY + pad };
+};
+
+// Where along p0->p1 (0..1) the segment enters the box, and the face normal it enters through.
+// A start inside the box counts as t = 0 on the nearest face.
+export const sweepBox = (x0: number, y0: number, x1: number, y1: number, box: Box): { t: number, nx: number, ny: number } | null => {
+    const d = [x1 - x0, y1 - y0];
+    const p = [x0, y0];
+    const min = [box.minX, box.minY];
+    const max = [box.maxX, box.maxY];
+    let tMin = 0;
+    let tMax = 1;
+    let axis = -1;
+    let sign = 0;
+
+    for (let i = 0; i < 2; i++) {
+        if (d[i] === 0) {
+            if (p[i] < min[i] || p[i] > max[i]) return null;
+            continue;
+        }
+        let t1 = (min[i] - p[i]) / d[i];
+        let t2 = (max[i] - p[i]) / d[i];
+        let n = -1;
+        if (t1 > t2) { [t1, t2] = [t2, t1]; n = 1; }
+        if (t1 > tMin) { tMin = t1; axis = i; sign = n; }
+        tMax = Math.min(tMax, t2);
+        if (tMin > tMax) return null;
+    }
+
+    if (axis === -1) {
+        // Started inside, leave through the closest face
+        const faces = [x0 - box.minX, box.maxX - x0, y0 - box.minY, box.maxY - y0];
+        const nearest = faces.indexOf(Math.min(...faces));
+        return { t: 0, nx: nearest === 0 ? -1 : nearest === 1 ? 1 : 0, ny: nearest === 2 ? -1 : nearest === 3 ? 1 : 0 };
+    }
+    return { t: tMin, nx: axis === 0 ? sign : 0, ny: axis === 1 ? sign : 0 };
+};
+
+// Moves a circle out of the box along the shortest way. Returns whether it overlapped.
+export const pushOutOfBox = (c: { x: number, y: number, radius: number }, box: Box): boolean => {
+    const px = Math.max(box.minX, Math.min(box.maxX, c.x));
+    const py = Math.max(box.minY, Math.min(box.maxY, c.y));
+    const dx = c.x - px;
+    const dy = c.y - py;
+    const d2 = dx * dx + dy * dy;
+    if (d2 >= c.radius * c.radius) return false;
+
+    if (d2 > 0) {
+        const d = Math.sqrt(d2);
+        c.x = px + (dx / d) * c.radius;
+        c.y = py + (dy / d) * c.radius;
+        return true;
+    }
+
+    // Centre inside the box
+    const left = c.x - box.minX;
+    const right = box.maxX - c.x;
+    const top = c.y - box.minY;
+    const bottom = box.maxY - c.y;
+    const least = Math.min(left, right, top, bottom);
+    if (least === left) c.x = box.minX - c.radius;
+    else if (least === right) c.x = box.maxX + c.radius;
+    else if (least === top) c.y = box.minY - c.radius;
+    else c.y = box.maxY + c.radius;
+    return true;
+};
+
+export const createStarterWeapon = (): CardDef => ({
+    id: 'starter',
+    templateId: 'starter',
+    name: '初始法球',
+    description: '基础攻击',
+    type: CardType.ARTIFACT,
+    rarity: Rarity.SILVER,
+    iconColor: '#00ffff',
+    artifactConfig: {
+        cooldown: 50,
+        baseDamage: 5,
+        element: ElementType.PHYSICAL,
+        projectileType: 'projectile',
+        color: 0x00ffff
+    }
+});
+
+export class Simulation {
+    state: GameState = GameState.MENU;
+    hooks: SimulationHooks;
+    rng: RngService;
+    nextObjectId: number = 1;
+
+    // Entities
+    player: Entity;
+    enemies: Entity[] = [];
+    bullets: Bullet[] = [];
+    hazards: Hazard[] = [];
+    xpOrbs: XPOrb[] = [];
+    obstacles: Obstacle[] = [];
+    generatedChunks: Set<string> = new Set();
+    obstacleGrid: SpatialHash<Obstacle> = new SpatialHash(GRID_CELL_SIZE); // Rebuilt when chunks change
+
+    // Spatial indexes, rebuilt during the tick (see indexEnemies / updateXP)
+    enemyGrid: SpatialHash<Entity> = new SpatialHash(GRID_CELL_SIZE);
+    orbGrid: SpatialHash<XPOrb> = new SpatialHash(GRID_CELL_SIZE);
+
+    // Game Logic
+    stats: PlayerStats;
+    spellLayout: SpellLayout = { layoutMap: {}, rowCount: 4 }; // SpellBoard rows = spell groups
+    wave: number = 1;
+    gameTime: number = 0; // Ticks spent PLAYING
+
+    // Wave Logic (see waves.ts)
+    waveScriptId: string = DEFAULT_WAVE_SCRIPT;
+    waveSpecCache: { script: WaveScript, wave: number, spec: WaveSpec } | null = null;
+    waveTotalEnemies: number = 0;
+    waveEnemiesSpawned: number = 0;
+    waveDelayTimer: number = 0;
+    waveTicks: number = 0; // Into the current wave, for its scripted events
+
+    // Cutscene Logic
+    preLevelUpTimer: number = 0;
+    levelUpOptions: CardDef[] = [];
+
+    // Input
+    aim: { x: number, y: number } = { x: 0, y: 0 }; // Pointer offset from the player
+    isAutoAim: boolean = true;
+    joystickInput: { x: number, y: number } = { x: 0, y: 0 };
+
+    // Action Queue
+    delayedActions: DelayedAction[] = [];
+
+    // Run Report
+    kills: number = 0;
+    damage: DamageReport = createDamageReport();
+
+    // Config
+    mapType: MapType = MapType.FIXED;
+
+    constructor(hooks: SimulationHooks = {}, rng: RngService = new RngService()) {
+        this.hooks = hooks;
+        this.rng = rng;
+        this.stats = this.createStats();
+        this.player = this.createPlayer();
+    }
+
+    createStats(): PlayerStats {
+        return {
+            hp: 100,
+            maxHp: 100,
+            level: 1,
+            xp: 0,
+            nextLevelXp: 10,
+            speed: 5,
+            damageMultiplier: 1,
+            pickupRange: 120,
+            inventory: [createStarterWeapon()]
+        };
+    }
+
+    createEntity(enemyType: EntityKind, x: number, y: number, hp: number, radius: number): Entity {
+        return {
+            id: this.nextObjectId++,
+            x, y,
+            prevX: x, prevY: y,
+            vx: 0, vy: 0,
+            knockbackVx: 0, knockbackVy: 0,
+            hp, maxHp: hp,
+            isDead: false,
+            radius,
+            statuses: {},
+            enemyType,
+            baseScale: 1,
+            hitFlashTimer: 0,
+            invulnTimer: 0
+        };
+    }
+
+    createPlayer(): Entity {
+        // World origin, independent of screen size
+        return this.createEntity('player', 0, 0, 100, 12); // radius = hitbox
+    }
+
+    start(mapType: MapType, seed: number, waveScriptId: string = DEFAULT_WAVE_SCRIPT) {
+        this.mapType = mapType;
+        this.waveScriptId = waveScriptId;
+        this.rng.reset(seed);
+        this.nextObjectId = 1;
+
+        // Fresh run state, a replay must start from exactly the same place
+        this.stats = this.createStats();
+        this.spellLayout = { layoutMap: {}, rowCount: 4 };
+        this.player = this.createPlayer();
+        this.enemies = [];
+        this.bullets = [];
+        this.hazards = [];
+        this.xpOrbs = [];
+        this.obstacles = [];
+        this.generatedChunks.clear();
+        this.obstacleGrid.clear();
+        this.enemyGrid.clear();
+        this.orbGrid.clear();
+
+        this.gameTime = 0;
+        this.preLevelUpTimer = 0;
+        this.levelUpOptions = [];
+        this.weaponCooldowns = {};
+        this.delayedActions = [];
+        this.kills = 0;
+        this.damage = createDamageReport();
+
+        this.waveDelayTimer = 0;
+
+        this.updateMapChunks();
+        this.setState(GameState.PLAYING);
+        this.startWave(1);
+    }
+
+    setState(state: GameState) {
+        this.state = state;
+        this.hooks.stateChanged?.(state);
+    }
+
+    // Player-facing stats with the live HP
+    snapshotStats(): PlayerStats {
+        return { ...this.stats, hp: this.player.hp, maxHp: this.player.maxHp };
+    }
+
+    // Still to spawn plus still alive in the current wave
+    enemiesLeft(): number {
+        return Math.max(0, this.waveTotalEnemies - this.waveEnemiesSpawned + this.enemies.length);
+    }
+
+    // --- INPUT ---
+    applyInput(input: ReplayInput) {
+        switch (input.kind) {
+            case 'joystick':
+                this.joystickInput = { x: input.x, y: input.y };
+                break;
+            case 'moveTo':
+                this.planMove(input.x, input.y);
+                break;
+            case 'aim':
+                this.aim = { x: input.x, y: input.y };
+                break;
+            case 'autoAim':
+                this.isAutoAim = input.enabled;
+                this.hooks.aimChanged?.(this.isAutoAim);
+                break;
+            case 'pickCard':
+                this.grantCard(input.card);
+                this.setState(GameState.PLAYING);
+                break;
+            case 'addCard':
+                this.grantCard(input.card);
+                break;
+            case 'removeCard':
+                this.removeCard(input.index);
+                break;
+            case 'setWave':
+                this.setWave(input.wave);
+                break;
+            case 'fuse':
+                this.fuseCards(input.cardIds);
+                break;
+            case 'reorder': {
+                const byId = new Map(this.stats.inventory.map(c => [c.id, c]));
+                this.stats.inventory = input.order.map(id => byId.get(id)).filter(Boolean) as CardDef[];
+                this.spellLayout = { layoutMap: { ...input.layout.layoutMap }, rowCount: input.layout.rowCount };
+                break;
+            }
+        }
+        if (EVOLVING_INPUTS.has(input.kind)) this.evolveReady();
+    }
+
+    // --- TICK ---
+    // Advances the run by exactly one fixed tick
+    step() {
+        const delta = TICK_DELTA;
+
+        if (this.state === GameState.PRE_LEVEL_UP) {
+            this.preLevelUpTimer -= delta;
+            if (this.preLevelUpTimer <= 0) {
+                this.triggerLevelUpUI();
+            }
+            return;
+        }
+
+        if (this.state !== GameState.PLAYING) return;
+
+        this.gameTime++;
+        this.storePreviousPositions();
+        this.indexEnemies();
+
+        if (this.gameTime % 60 === 0) {
+            this.updateMapChunks();
+        }
+
+        // Process delayed actions
+        for (let i = this.delayedActions.length - 1; i >= 0; i--) {
+            this.delayedActions[i].timer -= delta;
+            if (this.delayedActions[i].timer <= 0) {
+                this.delayedActions[i].action();
+                this.delayedActions.splice(i, 1);
+            }
+        }
+
+        this.updatePlayerMovement(delta);
+
+        this.handleSpawning(delta);
+        this.handleWeapons(delta);
+
+        this.updateEnemies(delta);
+        this.indexEnemies(); // Enemies moved, bullets and collisions need fresh cells
+        this.updateBullets(delta);
+        this.updateHazards(delta);
+        this.updateXP(delta);
+
+        this.handleCollisions(delta);
+    }
+
+    // Spawns insert themselves, so the grid stays complete until enemies move
+    indexEnemies() {
+        this.enemyGrid.rebuild(this.enemies);
+    }
+
+    // Closest living enemy to a point, strictly within maxDist
+    nearestEnemy(x: number, y: number, maxDist: number): Entity | null {
+        return this.enemyGrid.nearest(x, y, maxDist, e => !e.isDead);
+    }
+
+    storePreviousPositions() {
+        const store = (o: { x: number, y: number, prevX: number, prevY: number }) => { o.prevX = o.x; o.prevY = o.y; };
+        store(this.player);
+        this.enemies.forEach(store);
+        this.bullets.forEach(store);
+        this.hazards.forEach(store);
+        this.xpOrbs.forEach(store);
+    }
+
+    // Deterministic Map Generation
+    // FIXED: every chunk under the arena, once. INFINITE: a window around the player.
+    updateMapChunks() {
+        let changed = false;
+        if (this.mapType === MapType.FIXED) {
+            const min = Math.floor(-ARENA_HALF_SIZE / CHUNK_SIZE);
+            const max = Math.floor((ARENA_HALF_SIZE - 1) / CHUNK_SIZE);
+            for (let x = min; x <= max; x++) {
+                for (let y = min; y <= max; y++) changed = this.loadChunk(x, y) || changed;
+            }
+            if (changed) this.indexObstacles();
+            return;
+        }
+
+        const cx = Math.floor(this.player.x / CHUNK_SIZE);
+        const cy = Math.floor(this.player.y / CHUNK_SIZE);
+
+        for (let x = cx - CHUNK_LOAD_RADIUS; x <= cx + CHUNK_LOAD_RADIUS; x++) {
+            for (let y = cy - CHUNK_LOAD_RADIUS; y <= cy + CHUNK_LOAD_RADIUS; y++) {
+                changed = this.loadChunk(x, y) || changed;
+            }
+        }
+
+        // Far chunks go; coming back regenerates them identically from the seed
+        const far = new Set<string>();
+        this.generatedChunks.forEach(key => {
+            const [x, y] = key.split(',').map(Number);
+            if (Math.max(Math.abs(x - cx), Math.abs(y - cy)) > CHUNK_UNLOAD_RADIUS) far.add(key);
+        });
+        if (far.size > 0) {
+            far.forEach(key => this.generatedChunks.delete(key));
+            this.obstacles = this.obstacles.filter(o => !far.has(o.chunk));
+            changed = true;
+        }
+        if (changed) this.indexObstacles();
+    }
+
+    // Returns whether the chunk was newly generated
+    loadChunk(x: number, y: number): boolean {
+        const key = `${x},${y}`;
+        if (this.generatedChunks.has(key)) return false;
+        this.generateChunk(x, y);
+        this.generatedChunks.add(key);
+        return true;
+    }
+
+    indexObstacles() {
+        this.obstacleGrid.rebuild(this.obstacles);
+    }
+
+    generateChunk(cx: number, cy: number) {
+        // Keyed by run seed + chunk coords, so chunks look the same whatever order they stream in
+        const chunkRng = this.rng.derive(cx, cy);
+
+        const count = 10;
+        for(let i=0; i<count; i++) {
+             const type = chunkRng.next();
+             const ox = (cx * CHUNK_SIZE) + chunkRng.next() * CHUNK_SIZE;
+             const oy = (cy * CHUNK_SIZE) + chunkRng.next() * CHUNK_SIZE;
+
+             let kind: ObstacleKind = 'log';
+             if (type < 0.3) kind = 'tree';
+             else if (type < 0.6) kind = 'rock';
+
+             // Arena chunks can poke out past the walls
+             if (this.mapType === MapType.FIXED && !this.isInsideArena(ox, oy, 40)) continue;
+
+             this.obstacles.push({ id: this.nextObjectId++, x: ox, y: oy, kind, chunk: `${cx},${cy}` });
+        }
+    }
+
+    // --- ARENA ---
+    isInsideArena(x: number, y: number, margin = 0) {
+        const limit = ARENA_HALF_SIZE - margin;
+        return Math.abs(x) <= limit && Math.abs(y) <= limit;
+    }
+
+    // Walls: keeps a circle inside the FIXED arena, no-op on INFINITE maps
+    clampToArena(e: { x: number, y: number, radius: number }) {
+        if (this.mapType !== MapType.FIXED) return;
+        const limit = ARENA_HALF_SIZE - e.radius;
+        e.x = Math.max(-limit, Math.min(limit, e.x));
+        e.y = Math.max(-limit, Math.min(limit, e.y));
+    }
+
+    // --- OBSTACLES ---
+    // Pushes a circle out of every obstacle it overlaps, which also makes movers slide along them
+    resolveObstacles(e: { x: number, y: number, radius: number }) {
+        for (const o of this.obstacleGrid.query(e.x, e.y, e.radius + OBSTACLE_REACH)) {
+            pushOutOfBox(e, obstacleBox(o));
+        }
+    }
+
+    // Whether a circle of this radius centred here would overlap an obstacle or a wall
+    isBlocked(x: number, y: number, radius: number): boolean {
+        if (this.mapType === MapType.FIXED && !this.isInsideArena(x, y, radius)) return true;
+        for (const o of this.obstacleGrid.query(x, y, radius + OBSTACLE_REACH)) {
+            const box = obstacleBox(o, radius);
+            if (x > box.minX && x < box.maxX && y > box.minY && y < box.maxY) return true;
+        }
+        return false;
+    }
+
+    // Tap-to-move: routes around obstacles. A target inside one is moved to its edge;
+    // with no route found the player walks straight and slides along whatever is in the way.
+    planMove(x: number, y: number) {
+        const goal = { x, y, radius: this.player.radius };
+        this.clampToArena(goal);
+        this.resolveObstacles(goal);
+
+        const r = this.player.radius;
+        const path = findPath(this.player, goal, (px, py) => this.isBlocked(px, py, r));
+        this.player.moveTarget = { x: goal.x, y: goal.y };
+        this.player.movePath = path ?? [{ x: goal.x, y: goal.y }];
+        this.hooks.moveMarker?.(goal.x, goal.y);
+    }
+
+    // Bends a unit heading so an enemy walks round the nearest obstacle in front of it,
+    // keeping to the side it is already on
+    steerAroundObstacles(e: Entity, dir: Point, maxDist: number): Point {
+        const reach = Math.min(AVOID_LOOKAHEAD, maxDist);
+        let nearestT = 1;
+        let steer: Point | null = null;
+
+        for (const o of this.obstacleGrid.query(e.x, e.y, reach + e.radius + OBSTACLE_REACH)) {
+            const box = obstacleBox(o, e.radius);
+            const hit = sweepBox(e.x, e.y, e.x + dir.x * reach, e.y + dir.y * reach, box);
+            if (!hit || hit.t >= nearestT) continue;
+            nearestT = hit.t;
+
+            const side = (e.x - o.x) * -dir.y + (e.y - o.y) * dir.x >= 0 ? 1 : -1;
+            steer = { x: -dir.y * side, y: dir.x * side };
+        }
+        if (!steer) return dir;
+
+        const weight = 2 * (1 - nearestT);
+        const x = dir.x + steer.x * weight;
+        const y = dir.y + steer.y * weight;
+        const len = Math.hypot(x, y) || 1;
+        return { x: x / len, y: y / len };
+    }
+
+    obstacleResponse(b: Bullet): ObstacleResponse {
+        if (b.ignoreBlockers || isBlast(b)) return 'pass';
+        return OBSTACLE_RESPONSE[b.projectileType];
+    }
+
+    // Cuts this tick's bullet movement short at the first obstacle. Deflecting bullets bounce
+    // off the face they hit; stopping ones are left at the contact point for the caller to end.
+    collideBulletWithObstacles(b: Bullet): ObstacleResponse {
+        const response = this.obstacleResponse(b);
+        if (response === 'pass') return 'pass';
+
+        const r = Math.min(b.radius, 6); // Bullet core, the glow may brush past
+        let first: { t: number, nx: number, ny: number } | null = null;
+        const candidates = this.obstacleGrid.queryRect(
+            Math.min(b.prevX, b.x) - r - OBSTACLE_REACH, Math.min(b.prevY, b.y) - r - OBSTACLE_REACH,
+            Math.max(b.prevX, b.x) + r + OBSTACLE_REACH, Math.max(b.prevY, b.y) + r + OBSTACLE_REACH
+        );
+        for (const o of candidates) {
+            const hit = sweepBox(b.prevX, b.prevY, b.x, b.y, obstacleBox(o, r));
+            if (hit && (!first || hit.t < first.t)) first = hit;
+        }
+        if (!first) return 'pass';
+
+        b.x = b.prevX + (b.x - b.prevX) * first.t + first.nx * 0.1;
+        b.y = b.prevY + (b.y - b.prevY) * first.t + first.ny * 0.1;
+
+        if (response === 'deflect') {
+            if (first.nx !== 0) b.vx = Math.abs(b.vx) * first.nx;
+            if (first.ny !== 0) b.vy = Math.abs(b.vy) * first.ny;
+            if (b.projectileType === 'water_snake') b.rotation = Math.atan2(b.vy, b.vx); // Heading drives its velocity
+        }
+        return response;
+    }
+
+    // Where a new enemy enters: an arena edge point away from the player, or a ring off-screen
+    spawnPosition(minDist: number, maxDist: number): { x: number, y: number } {
+        if (this.mapType === MapType.FIXED) {
+            const points = ARENA_SPAWN_POINTS.filter(p => Math.hypot(p.x - this.player.x, p.y - this.player.y) > 400);
+            const p = this.rng.gameplay.pick(points.length > 0 ? points : ARENA_SPAWN_POINTS);
+            return {
+                x: p.x + this.rng.gameplay.range(-60, 60),
+                y: p.y + this.rng.gameplay.range(-60, 60)
+            };
+        }
+
+        const angle = this.rng.gameplay.next() * Math.PI * 2;
+        const dist = minDist + this.rng.gameplay.next() * (maxDist - minDist);
+        return {
+            x: this.player.x + Math.cos(angle) * dist,
+            y: this.player.y + Math.sin(angle) * dist
+        };
+    }
+
+    updatePlayerMovement(delta: number) {
+        if (this.player.invulnTimer > 0) {
+            this.player.invulnTimer -= delta;
+        }
+
+        // Joystick Logic (Prioritized)
+        if (this.joystickInput.x !== 0 || this.joystickInput.y !== 0) {
+            const speed = 4 * delta * (this.stats.speed / 5);
+            this.player.x += this.joystickInput.x * speed;
+            this.player.y += this.joystickInput.y * speed;
+            this.player.moveTarget = undefined; // Cancel tap-to-move if using joystick
+            this.player.movePath = undefined;
+        }
+        // Tap to Move Logic, waypoint by waypoint
+        else if (this.player.moveTarget) {
+            const waypoint = this.player.movePath?.[0] ?? this.player.moveTarget;
+            const dx = waypoint.x - this.player.x;
+            const dy = waypoint.y - this.player.y;
+            const dist = Math.sqrt(dx * dx + dy * dy);
+
+            if (dist > 5) {
+                const speed = Math.min(dist, 4 * delta * (this.stats.speed / 5));
+                this.player.x += (dx / dist) * speed;
+                this.player.y += (dy / dist) * speed;
+            } else if (this.player.movePath && this.player.movePath.length > 1) {
+                this.player.movePath.shift();
+            } else {
+                this.player.moveTarget = undefined;
+                this.player.movePath = undefined;
+            }
+        }
+
+        this.resolveObstacles(this.player);
+        this.clampToArena(this.player);
+    }
+
+    // --- WAVES ---
+    // Pacing comes from the wave script. Looked up every tick, so a hot-reloaded script
+    // applies at once; the enemy count is fixed when the wave starts.
+    waveSpec(): WaveSpec {
+        const script = findWaveScript(this.waveScriptId);
+        const cache = this.waveSpecCache;
+        if (cache && cache.script === script && cache.wave === this.wave) return cache.spec;
+        const spec = resolveWave(script, this.wave);
+        this.waveSpecCache = { script, wave: this.wave, spec };
+        return spec;
+    }
+
+    startWave(wave: number) {
+        this.wave = wave;
+        this.waveEnemiesSpawned = 0;
+        this.waveTicks = 0;
+        const spec = this.waveSpec();
+        this.waveTotalEnemies = spec.count;
+        this.hooks.waveStarted?.(this.wave, this.waveTotalEnemies);
+
+        const bossType = spec.boss !== undefined ? findBossType(spec.boss) : -1;
+        if (bossType !== -1) {
+            this.spawnBoss(bossType);
+            this.waveEnemiesSpawned++;
+        } else if (wave > 1) { // The first one starts with the run
+            this.hooks.text?.(`WAVE ${this.wave}`, this.player.x, this.player.y - 100, 0xffffff);
+        }
+    }
+
+    handleSpawning(delta: number) {
+        if (this.waveDelayTimer > 0) {
+            this.waveDelayTimer -= delta;
+            if (this.waveDelayTimer <= 0) this.startWave(this.wave + 1);
+            return;
+        }
+
+        const spec = this.waveSpec();
+        spec.events.forEach(ev => {
+            if (ev.at === this.waveTicks) this.runWaveEvent(ev);
+        });
+        this.waveTicks += delta;
+
+        if (this.waveEnemiesSpawned >= this.waveTotalEnemies && this.enemies.length === 0) {
+            this.hooks.waveCleared?.(this.wave);
+            if (this.wave >= findWaveScript(this.waveScriptId).victoryWave) this.setState(GameState.VICTORY);
+            else this.waveDelayTimer = spec.breather;
+            return;
+        }
+
+        // Cap active enemies for performance
+        if (this.waveEnemiesSpawned < this.waveTotalEnemies && this.enemies.length < spec.maxAlive) {
+            if (this.rng.gameplay.next() < spec.spawnRate) {
+                const size = spec.pattern === 'scatter' ? 1 : Math.min(spec.groupSize, this.waveTotalEnemies - this.waveEnemiesSpawned);
+                this.spawnGroup(size, spec.pattern, () => this.rollEnemyType(spec.mix), spec.eliteChance);
+                this.waveEnemiesSpawned += size;
+            }
+        }
+    }
+
+    runWaveEvent(ev: WaveEvent) {
+        if (ev.message) this.hooks.waveMessage?.(ev.message);
+        if (ev.swarm) {
+            const { type, count, pattern } = ev.swarm;
+            this.spawnGroup(count, pattern, () => type, this.waveSpec().eliteChance);
+        }
+    }
+
+    // Every spawn starts as a slime, each mix layer may then turn it into its type
+    rollEnemyType(mix: MixLayer[]): WaveEnemyType {
+        let type: WaveEnemyType = 'slime';
+        mix.forEach(layer => {
+            if (this.rng.gameplay.next() > 1 - layer.chance) type = layer.type;
+        });
+        return type;
+    }
+
+    // scatter: each at its own edge point; cluster: together at one; ring: around the player
+    spawnGroup(count: number, pattern: SpawnPattern, pickType: () => WaveEnemyType, eliteChance: number) {
+        const anchor = pattern === 'cluster' ? this.spawnPosition(600, 800) : null;
+        const ringStart = pattern === 'ring' ? this.rng.gameplay.next() * Math.PI * 2 : 0;
+
+        for (let i = 0; i < count; i++) {
+            let pos: { x: number, y: number };
+            if (pattern === 'scatter') {
+                pos = this.spawnPosition(600, 800);
+            } else if (anchor) {
+                pos = { x: anchor.x + this.rng.gameplay.range(-CLUSTER_SPREAD, CLUSTER_SPREAD), y: anchor.y + this.rng.gameplay.range(-CLUSTER_SPREAD, CLUSTER_SPREAD) };
+            } else {
+                const angle = ringStart + (i / count) * Math.PI * 2;
+                pos = { x: this.player.x + Math.cos(angle) * RING_SPAWN_RADIUS, y: this.player.y + Math.sin(angle) * RING_SPAWN_RADIUS };
+            }
+
+            const enemy = this.createWaveEnemy(pickType(), pos.x, pos.y);
+            if (eliteChance > 0 && this.rng.gameplay.next() < eliteChance) this.makeElite(enemy);
+            if (pattern !== 'scatter') {
+                this.resolveObstacles(enemy);
+                this.clampToArena(enemy);
+            }
+            this.enemies.push(enemy);
+            this.enemyGrid.insert(enemy);
+        }
+    }
+
+    // Announced by name (see bosses.ts)
+    spawnBoss(bossType: number) {
+        const { x, y } = this.spawnPosition(600, 600);
+
+        const def = bossDef(bossType);
+        const hpMultiplier = this.wave * 250;
+        const size = 50;
+
+        const boss = this.createEntity('boss', x, y, 2000 + hpMultiplier, size/2);
+        boss.isBoss = true;
+        boss.bossType = bossType;
+        boss.bossActionTimer = 120; // 2 sec before the first attack
+        boss.bossPhase = 0;
+        if (def.attack === 'attune') boss.immuneElement = ATTUNE_CYCLE[0].element;
+        if (def.attack === 'split') boss.splitGeneration = 0;
+
+        this.enemies.push(boss);
+        this.enemyGrid.insert(boss);
+        this.hooks.bossWarning?.(`${def.name} · ${def.title}`);
+    }
+
+    // A regular enemy as strong as the current wave makes them
+    createWaveEnemy(type: WaveEnemyType, x: number, y: number): Entity {
+        // 2. Size Scaling: Exponential growth with wave
+        // Base size + (wave * factor)
+        const sizeFactor = 1 + Math.pow(this.wave, 1.1) * 0.05;
+
+        // Hitbox by type: slime blobby, bat small & fast, skull big & tough, eye floating
+        const baseRadius = { slime: 8, bat: 6, skull: 12, eye: 10 }[type];
+
+        const waveHP = (10 + Math.pow(this.wave, 1.6) * 3) * sizeFactor;
+        const enemy = this.createEntity(type, x, y, waveHP, baseRadius * sizeFactor);
+        enemy.baseScale = sizeFactor;
+        const ranged = RANGED_ENEMIES[type];
+        if (ranged) enemy.attackTimer = ranged.cooldown * this.rng.gameplay.range(0.5, 1);
+        return enemy;
+    }
+
+    // One affix, one more every WAVES_PER_AFFIX waves, none twice
+    makeElite(e: Entity) {
+        const count = Math.min(MAX_AFFIXES, 1 + Math.floor(this.wave / WAVES_PER_AFFIX));
+        const pool = [...AFFIX_IDS];
+        const affixes: AffixId[] = [];
+        for (let i = 0; i < count; i++) {
+            affixes.push(pool.splice(Math.floor(this.rng.gameplay.next() * pool.length), 1)[0]);
+        }
+        e.affixes = affixes;
+        e.maxHp *= ELITE_HP * affixProduct(affixes, 'hpMult');
+        e.hp = e.maxHp;
+        e.radius *= ELITE_SCALE;
+        e.baseScale *= ELITE_SCALE;
+        if (affixes.some(id => AFFIX_DEFS[id].warded)) {
+            e.immuneElement = ATTUNE_CYCLE[Math.floor(this.rng.gameplay.next() * ATTUNE_CYCLE.length)].element;
+        }
+    }
+
+    // --- WEAPON SYSTEM ---
+    weaponCooldowns: { [key: string]: number } = {};
+
+    // Every SpellBoard row is cast on its own, nothing carries over from one row to the next
+    handleWeapons(delta: number) {
+        groupInventory(this.stats.inventory, this.spellLayout).forEach(group => {
+            if (isGroupActive(group)) this.castGroup(group, delta);
+        });
+    }
+
+    // How the cards combine is worked out in spells.ts, this only fires what comes out
+    castGroup(group: CardDef[], delta: number) {
+        resolveSpellGroup(group).forEach(cast => this.castArtifact(cast, delta));
+    }
+
+    castArtifact(cast: ArtifactCast, delta: number) {
+        const { card, effects, buffs } = cast;
+        const conf = card.artifactConfig!;
+        if (!this.weaponCooldowns[card.id]) this.weaponCooldowns[card.id] = 0;
+        this.weaponCooldowns[card.id] -= delta * buffs.freqMult;
+
+        // Orbit and minion weapons stay out instead of firing; their cooldown only paces 'copy' echoes
+        if (isPersistentWeapon(conf)) {
+            if (conf.projectileType === 'orbit') this.syncOrbiters(card, effects, buffs, cast.castCount);
+            else this.fireArtifact(card, effects, buffs, 0);
+            if (this.weaponCooldowns[card.id] <= 0) {
+                this.weaponCooldowns[card.id] = conf.cooldown;
+                this.echoCopies(cast);
+            }
+            return;
+        }
+        if (this.weaponCooldowns[card.id] > 0) return;
+
+        this.fireArtifact(card, effects, buffs, 0);
+        for (let i = 1; i < cast.castCount; i++) {
+            this.delayedActions.push({
+                timer: i * 8,
+                action: () => this.fireArtifact(card, effects, buffs, i)
+            });
+        }
+        this.weaponCooldowns[card.id] = conf.cooldown;
+        this.echoCopies(cast);
+    }
+
+    // 'copy': the artifact before this one casts again, an echo right after
+    echoCopies(cast: ArtifactCast) {
+        const source = cast.copySource;
+        if (!source) return;
+        const echoEffects = cast.effects.filter(e => e.logic !== 'copy');
+        for (let i = 0; i < cast.copies; i++) {
+            this.delayedActions.push({
+                timer: 6 + i * 8,
+                action: () => this.fireArtifact(source, echoEffects, cast.buffs, 0)
+            });
+        }
+    }
+
+    // Firing direction: the nearest enemy when targeting, otherwise the pointer
+    aimAngle(targetEnemy: boolean): number {
+        if (targetEnemy) {
+            const target = this.nearestEnemy(this.player.x, this.player.y, 99999);
+            if (target) return Math.atan2(target.y - this.player.y, target.x - this.player.x);
+        }
+        return Math.atan2(this.aim.y, this.aim.x);
+    }
+
+    // Orbit weapons aren't fired, their guardians are kept in line with the card every tick:
+    // fan/ring/split_back/double set how many, giant their size, range/frequency buffs
+    // their distance and speed, track lets them lunge at nearby enemies.
+    syncOrbiters(card: CardDef, activeEffects: ActiveEffect[], buffs: BuffStats, executionCount: number) {
+        const conf = card.artifactConfig!;
+        const flags = readCastFlags(activeEffects);
+        const wanted = Math.min(orbitersPerCast(flags) * executionCount, ORBIT_MAX);
+
+        const own = this.bullets.filter(b => b.ownerId === card.id && !b.isDead);
+        own.slice(wanted).forEach(b => this.killBullet(b));
+        const kept = own.slice(0, wanted);
+        const added = wanted - kept.length;
+        for (let i = 0; i < added; i++) {
+            kept.push(this.createBullet(conf, 0, buffs, flags, card.id, kept.length));
+        }
+
+        // New guardians spread the whole ring out evenly again
+        const base = kept[0].orbitAngle ?? 0;
+        const scaleMod = 1 + flags.giantCount * 0.5;
+        kept.forEach((b, i) => {
+            if (added > 0) b.orbitAngle = base + Math.PI * 2 * i / kept.length;
+            b.orbitRadius = ORBIT_RADIUS * buffs.rangeMult;
+            b.orbitSpeed = ORBIT_SPEED * buffs.freqMult;
+            b.damage = conf.baseDamage * this.stats.damageMultiplier * buffs.damageMult * scaleMod;
+            b.scale = scaleMod;
+            b.radius = 14 * scaleMod;
+            b.giantCount = flags.giantCount;
+            b.isTracking = flags.track;
+            b.isWobble = flags.wobble;
+            b.ignoreBlockers = flags.ignore;
+        });
+    }
+
+    fireArtifact(card: CardDef, activeEffects: ActiveEffect[], buffs: BuffStats, dupeIndex: number = 0) {
+        if (!card.artifactConfig) return;
+        const conf = card.artifactConfig;
+
+        // --- Jade Ruyi (Pull) Special Logic ---
+        if (conf.projectileType === 'pull_screen') {
+             this.hooks.screenFlash?.(0xff00ff);
+
+             let count = 0;
+             this.xpOrbs.forEach(orb => {
+                 orb.isMagnetized = true;
+                 count++;
+             });
+
+             if (count > 0 && dupeIndex === 0) this.hooks.text?.("GATHER!", this.player.x, this.player.y - 60, 0xff00ff);
+             return;
+        }
+
+        // Persistent Weapon Checks
+        if (isPersistentWeapon(conf)) {
+            const activeInstances = this.bullets.filter(b => b.ownerId === card.id && !b.isDead).length;
+            if (activeInstances > dupeIndex) return;
+        }
+
+        const flags = readCastFlags(activeEffects);
+        const isLine = flags.line;
+        const { wobble, ignore, reverse, giantCount } = flags;
+
+        // --- Lightning Logic ---
+        // fan/ring/split_back add jumps. line: the bolt runs straight on through everything in
+        // its lane. ignore: each jump searches around the last target, not the player.
+        // reverse: the bolt arcs back along the chain to the player at half damage.
+        if (isLightning(conf)) {
+            const range = 400 * buffs.rangeMult;
+            const inRange = (x: number, y: number) => this.enemyGrid.query(x, y, range).filter(e => {
+                const d = Math.hypot(e.x - x, e.y - y);
+                return d < range && !e.isDead;
+            });
+            let currentSource = { x: this.player.x, y: this.player.y };
+            let potentialTargets = inRange(this.player.x, this.player.y);
+
+            const chains = lightningChains(flags, buffs);
+
+            const lightningColor = conf.element;
+            const visualColor = conf.color;
+            // Giant scales damage for lightning too
+            const dmg = conf.baseDamage * this.stats.damageMultiplier * buffs.damageMult * (1 + giantCount * 0.5);
+
+            const struck: Entity[] = [];
+            let lane: { x: number, y: number, dx: number, dy: number } | null = null;
+
+            for(let i=0; i<chains; i++) {
+                if (ignore && i > 0) {
+                    potentialTargets = inRange(currentSource.x, currentSource.y).filter(e => !struck.includes(e));
+                }
+                if (potentialTargets.length === 0) break;
+
+                let closestIdx = -1;
+                let minD = 9999;
+                for(let j=0; j<potentialTargets.length; j++) {
+                     const t = potentialTargets[j];
+                     let d = Math.hypot(t.x - currentSource.x, t.y - currentSource.y);
+                     if (lane) {
+                         // Only what lies ahead in the lane, in order along it
+                         const along = (t.x - lane.x) * lane.dx + (t.y - lane.y) * lane.dy;
+                         const across = Math.abs((t.x - lane.x) * -lane.dy + (t.y - lane.y) * lane.dx);
+                         const here = (currentSource.x - lane.x) * lane.dx + (currentSource.y - lane.y) * lane.dy;
+                         if (along <= here || across > LIGHTNING_LANE_WIDTH) continue;
+                         d = along - here;
+                     }
+                     if (d < minD) { minD = d; closestIdx = j; }
+                }
+                if (closestIdx === -1) break;
+
+                const target = potentialTargets[closestIdx];
+                this.hooks.lightning?.(currentSource.x, currentSource.y, target.x, target.y, visualColor, giantCount, wobble);
+                this.applyLightningDamage(target, dmg, lightningColor, card.id, conf.inflicts);
+
+                if (isLine && !lane) {
+                    const len = Math.hypot(target.x - this.player.x, target.y - this.player.y) || 1;
+                    lane = { x: this.player.x, y: this.player.y, dx: (target.x - this.player.x) / len, dy: (target.y - this.player.y) / len };
+                }
+                struck.push(target);
+                currentSource = { x: target.x, y: target.y };
+                potentialTargets.splice(closestIdx, 1);
+            }
+
+            if (reverse && struck.length > 0) {
+                const back = [...struck.slice(0, -1).reverse(), null];
+                back.forEach(target => {
+                    const to = target ?? this.player;
+                    this.hooks.lightning?.(currentSource.x, currentSource.y, to.x, to.y, visualColor, giantCount, wobble);
+                    if (target) this.applyLightningDamage(target, dmg * 0.5, lightningColor, card.id, conf.inflicts);
+                    currentSource = { x: to.x, y: to.y };
+                });
+            }
+            return;
+        }
+
+        // Projectile Angles
+        const baseAngle = this.aimAngle(this.isAutoAim);
+
+        const angles = spreadAngles(baseAngle, conf, flags);
+
+        angles.forEach(angle => {
+            const b = this.createBullet(conf, angle, buffs, flags, card.id, dupeIndex);
+            if (b.projectileType === 'beam') b.beamOffset = angle - baseAngle;
+
+            // Line: a column of extra shots following behind
+            if (isLine) {
+                for (let k = 1; k <= LINE_EXTRA_SHOTS; k++) {
+                    const b = this.createBullet(conf, angle, buffs, flags, card.id, dupeIndex);
+                    b.x = b.prevX = b.x - Math.cos(angle) * LINE_SPACING * k;
+                    b.y = b.prevY = b.y - Math.sin(angle) * LINE_SPACING * k;
+                }
+            }
+        });
+    }
+
+    applyLightningDamage(e: Entity, dmg: number, type: ElementType, sourceId: string, inflicts?: StatusName[]) {
+        if (e.isDead) return;
+        const dealt = this.strike(e, type, dmg, sourceId, inflicts);
+        this.hooks.text?.(Math.round(dealt).toString(), e.x, e.y - 20, type === ElementType.LIGHTNING_BLUE ? 0x00ffff : 0xffff00);
+    }
+
+    // --- Statuses & Reactions ---
+
+    // sourceId: card behind it, damage over time counts for it
+    addStatus(e: Entity, status: StatusName, sourceId?: string) {
+        const resist = e.enemyType === 'player' ? undefined : ENEMY_STATUS_RESISTANCE[e.enemyType];
+        applyStatus(e.statuses, status, resist, sourceId);
+    }
+
+    // Lands a hit: the reactions it sets off, the damage, then the reactions' areas.
+    // inflicts: statuses the artifact puts on first, so the hit can react with them.
+    // Returns the damage dealt to `e` itself.
+    strike(e: Entity, element: ElementType, baseDmg: number, sourceId: string, inflicts: StatusName[] = []): number {
+        if (e.immuneElement === element) {
+            if (this.rng.cosmetic.next() < 0.2) this.hooks.text?.('免疫', e.x, e.y - 30, 0xaaaaaa);
+            return 0;
+        }
+        inflicts.forEach(s => this.addStatus(e, s, sourceId));
+        const fired = reactionsFor(element, s => hasStatus(e.statuses, s));
+        fired.forEach(r => {
+            if (r.consume) clearStatus(e.statuses, r.status);
+            r.apply.forEach(s => this.addStatus(e, s, sourceId));
+            if (r.text) {
+                this.hooks.text?.(r.text, e.x, e.y - 30, r.color);
+                this.hooks.particles?.(e.x, e.y, r.color, 5);
+            }
+        });
+        const own = ELEMENT_STATUS[element];
+        if (own && !fired.some(r => r.blockStatus)) this.addStatus(e, own, sourceId);
+
+        // The hit counts for the first reaction that changed its damage
+        const boost = fired.find(r => r.damageMult !== 1);
+        const dmg = fired.reduce((d, r) => d * r.damageMult, baseDmg) * this.damageTaken(e, element);
+        if (dmg > 0) {
+            e.hp -= dmg;
+            this.recordDamage(e, { cardId: sourceId, element, reaction: boost?.id }, dmg);
+        }
+        if (e.hp <= 0) this.killEnemy(e);
+
+        fired.forEach(r => {
+            if (r.area) this.reactionArea(e, r, dmg, { cardId: sourceId, element, reaction: r.id });
+        });
+        return dmg;
+    }
+
+    // Share of a hit `e` takes: statuses, a boss's shield, an elite's affixes, an attuned boss's or warded elite's immunity
+    damageTaken(e: Entity, element: ElementType): number {
+        if (e.immuneElement === element) return 0;
+        return damageTakenMult(e.statuses) * (e.shieldTimer !== undefined ? SHIELD_DAMAGE_TAKEN : 1) * affixProduct(e.affixes, 'damageTaken');
+    }
+
+    reactionArea(origin: Entity, reaction: ReactionDef, hitDmg: number, source: DamageSource) {
+        const area = reaction.area!;
+        const { x, y } = origin;
+        const areaDmg = (area.damage ?? 0) * this.stats.damageMultiplier + (area.hitDamage ?? 0) * hitDmg;
+
+        if (area.visual === 'storm') this.hooks.storm?.(x, y, area.radius);
+        else if (area.visual === 'burst') this.hooks.particles?.(x, y, reaction.color, 12);
+
+        this.enemyGrid.query(x, y, area.radius).forEach(e => {
+            if (e.isDead || (e === origin && !area.includeTarget)) return;
+            if (Math.hypot(e.x - x, e.y - y) >= area.radius) return;
+            if (area.onlyStatus && !hasStatus(e.statuses, area.onlyStatus)) return;
+
+            area.apply?.forEach(s => this.addStatus(e, s, source.cardId));
+            const dmg = areaDmg * this.damageTaken(e, source.element);
+            if (dmg > 0) {
+                e.hp -= dmg;
+                this.recordDamage(e, source, dmg);
+                if (e.hp <= 0) this.killEnemy(e);
+            }
+        });
+    }
+
+    createBullet(conf: ArtifactConfig, angle: number, buffs: BuffStats, flags: CastFlags, ownerId: string, dupeIndex: number): Bullet {
+        let speed = 5;
+        let life = 180 * buffs.rangeMult;
+        let radius = 12;
+        let rotation = 0;
+
+        // Stacking Giant Logic
+        const scaleMod = 1 + (flags.giantCount * 0.5);
+        let scale = scaleMod;
+
+        const b: Bullet = {
+            id: this.nextObjectId++,
+            x: this.player.x,
+            y: this.player.y,
+            prevX: this.player.x,
+            prevY: this.player.y,
+            vx: 0, vy: 0,
+            rotation: 0,
+            scale: 1,
+            alpha: 1,
+            damage: conf.baseDamage * this.stats.damageMultiplier * buffs.damageMult * scaleMod,
+            element: conf.element,
+            projectileType: conf.projectileType,
+            duration: 0,
+            maxDuration: 0,
+            radius: 0,
+            ownerId,
+            isDead: false,
+            isTracking: flags.track,
+            isWobble: flags.wobble,
+            wobblePhase: this.rng.gameplay.next() * 10,
+            hitList: new Set(),
+            pierce: (conf.projectileType === 'area' || conf.element === ElementType.FIRE || conf.element === ElementType.WIND || conf.projectileType === 'water_snake' || conf.projectileType === 'minion') ? 999 : 1,
+            color: conf.color,
+            giantCount: flags.giantCount,
+            inflicts: conf.inflicts,
+            splash: conf.splash,
+            aura: conf.aura,
+            ignoreBlockers: flags.ignore
+        };
+
+        // --- Shaped weapons, whatever their element ---
+        if (conf.projectileType === 'orbit') {
+            speed = 0;
+            life = 999999;
+            radius = 14 * scaleMod;
+            b.pierce = 999;
+            b.orbitAngle = 0;
+            b.orbitRadius = ORBIT_RADIUS * buffs.rangeMult;
+            b.orbitReach = b.orbitRadius;
+            b.orbitSpeed = ORBIT_SPEED * buffs.freqMult;
+        }
+        else if (conf.projectileType === 'beam') {
+            speed = 0;
+            life = BEAM_DURATION;
+            radius = 8 * scaleMod; // Half width, giant makes it thicker
+            scale = 1;
+            rotation = angle;
+            b.pierce = 999;
+            b.beamRange = BEAM_RANGE * buffs.rangeMult;
+            b.beamLength = 0;
+            b.beamOffset = 0;
+        }
+        else if (conf.projectileType === 'stream') {
+            angle += this.rng.gameplay.range(-STREAM_SPREAD, STREAM_SPREAD);
+            speed = 7 * this.rng.gameplay.range(0.85, 1.15);
+            life = 45 * buffs.rangeMult;
+            radius = 8 * scaleMod;
+            rotation = angle;
+            b.pierce = 1;
+        }
+        // --- Wind Bag (Universal Direction Support) ---
+        else if (conf.element === ElementType.WIND) {
+             radius = 80 * buffs.rangeMult; // Visible shockwave
+             life = 40;
+             speed = 4; // Moves forward
+             scale = 0.1 * scaleMod; // Apply Giant
+             rotation = angle;
+        }
+        else if (conf.element === ElementType.FIRE) {
+             radius = 60 * buffs.rangeMult;
+             speed = 3;
+             life = 45 * buffs.rangeMult;
+             rotation = angle; // Direction
+        }
+        else if (conf.projectileType === 'water_snake') {
+             radius = 15;
+             speed = 6;
+             life = 60 * buffs.rangeMult;
+             b.pierce = 999;
+             rotation = angle;
+        }
+        else if (conf.projectileType === 'minion') {
+            speed = 0;
+            life = 999999;
+            b.state = 'IDLE';
+            b.orbitAngle = dupeIndex * (Math.PI);
+            b.attackTimer = 0;
+            scale = 1.2 * scaleMod;
+        }
+        else if (conf.projectileType === 'projectile') {
+            rotation = angle + Math.PI/2;
+        }
+
+        // Speed buffs fly faster for a shorter time, covering the same ground
+        if (speed > 0) {
+            speed *= buffs.speedMult;
+            life /= buffs.speedMult;
+        }
+        if (!isPersistentWeapon(conf)) life *= buffs.durationMult;
+
+        b.vx = Math.cos(angle) * speed;
+        b.vy = Math.sin(angle) * speed;
+        b.rotation = rotation;
+        b.scale = scale;
+        b.duration = life;
+        b.maxDuration = life;
+        b.radius = radius;
+
+        // Boomerang: shots that fly off on their own; blasts fade out and persistent weapons already come back
+        if (flags.reverse && speed > 0 && !isBlast(b)) {
+            b.isBoomerang = true;
+            b.pierce = Math.max(b.pierce, 3);
+        }
+        if (b.pierce < 999) b.pierce += buffs.pierce;
+
+        this.bullets.push(b);
+        return b;
+    }
+
+    updateEnemies(delta: number) {
+        const playerPos = { x: this.player.x, y: this.player.y };
+        const neighbours: Entity[] = [];
+
+        this.enemies.forEach(e => {
+            if (e.isDead) return;
+
+            if (e.hitFlashTimer > 0) e.hitFlashTimer -= delta;
+
+            if (e.isBoss) this.updateBoss(e, delta);
+
+            const dx = playerPos.x - e.x;
+            const dy = playerPos.y - e.y;
+            const dist = Math.sqrt(dx * dx + dy * dy);
+
+            let moveSpeed = (1 + (this.wave * 0.005)) * delta;
+
+            // Adjust speed by type
+            if (e.enemyType === 'bat') moveSpeed *= 1.5;
+            if (e.enemyType === 'skull') moveSpeed *= 0.7;
+            // Bosses stand still while winding up, so the telegraph reads
+            if (e.isBoss) moveSpeed *= e.bossWindup !== undefined ? 0 : bossDef(e.bossType).speed;
+            // Ranged enemies hold their distance and shoot
+            const ranged = RANGED_ENEMIES[e.enemyType as EnemyType];
+            if (ranged) {
+                if (dist < ranged.range) moveSpeed = 0;
+                if (!isHeld(e.statuses)) this.updateRanged(e, ranged, dist, delta);
+            }
+            moveSpeed *= speedFactor(e.statuses) * affixProduct(e.affixes, 'speedMult');
+
+            e.knockbackVx *= 0.85;
+            e.knockbackVy *= 0.85;
+
+            if (dist > 10) {
+                // Collision with other enemies (grid cells are from the start of the tick,
+                // the small drift since then is covered by the query padding)
+                let pushX = 0, pushY = 0;
+                this.enemyGrid.query(e.x, e.y, e.radius, neighbours).forEach(other => {
+                    if (e === other || other.isDead) return;
+                    const idx = e.x - other.x;
+                    const idy = e.y - other.y;
+                    const idist = Math.sqrt(idx*idx + idy*idy);
+                    if (idist > 0 && idist < (e.radius + other.radius)) {
+                        const force = 1 - (idist / (e.radius + other.radius));
+                        pushX += (idx / idist) * force;
+                        pushY += (idy / idist) * force;
+                    }
+                });
+                neighbours.length = 0;
+                e.x += pushX * 1;
+                e.y += pushY * 1;
+
+                const dir = this.steerAroundObstacles(e, { x: dx / dist, y: dy / dist }, dist);
+                e.x += dir.x * moveSpeed;
+                e.y += dir.y * moveSpeed;
+            }
+
+            e.x += e.knockbackVx * delta;
+            e.y += e.knockbackVy * delta;
+            this.resolveObstacles(e);
+            this.clampToArena(e);
+
+            this.tickStatuses(e, delta);
+            const regen = affixSum(e.affixes, 'regen');
+            if (regen > 0 && e.hp > 0) e.hp = Math.min(e.maxHp, e.hp + e.maxHp * regen * delta);
+
+            if (e.hp <= 0) this.killEnemy(e);
+        });
+
+        // Safe Cleanup
+        this.enemies = this.enemies.filter(e => !e.isDead);
+    }
+
+    // Counts down only within range; out of it the shot waits, short of its telegraph
+    updateRanged(e: Entity, ranged: RangedAttack, dist: number, delta: number) {
+        const timer = e.attackTimer ?? ranged.cooldown;
+        if (dist > ranged.range) {
+            e.attackTimer = Math.max(timer, ranged.windup);
+            return;
+        }
+        e.attackTimer = timer - delta;
+        if (e.attackTimer <= 0) {
+            this.fireShot(e, Math.atan2(this.player.y - e.y, this.player.x - e.x), ranged.color);
+            e.attackTimer = ranged.cooldown;
+        }
+    }
+
+    tickStatuses(e: Entity, delta: number) {
+        STATUS_NAMES.forEach(name => {
+            const state = e.statuses[name];
+            if (!state) return;
+            const def = STATUS_DEFS[name];
+            if (def.dot && def.dot.element !== e.immuneElement) {
+                const dmg = def.dot.damage * state.stacks * delta * (1 + this.wave*0.1);
+                e.hp -= dmg;
+                this.recordDamage(e, { cardId: state.sourceId ?? def.dot.tag, element: def.dot.element, reaction: def.dot.tag }, dmg);
+            }
+            if (def.particles !== undefined && this.rng.cosmetic.next() < 0.1) this.hooks.particles?.(e.x, e.y, def.particles, 3);
+        });
+        expireStatuses(e.statuses, delta);
+    }
+
+    // --- Bosses (see bosses.ts) ---
+
+    // Winds up, then attacks; held off while frozen or stunned
+    updateBoss(boss: Entity, delta: number) {
+        const def = bossDef(boss.bossType);
+        if (boss.shieldTimer !== undefined) {
+            boss.shieldTimer -= delta;
+            if (boss.shieldTimer <= 0) boss.shieldTimer = undefined;
+        }
+        if (isHeld(boss.statuses)) return;
+
+        if (boss.bossWindup !== undefined) {
+            boss.bossWindup -= delta;
+            if (boss.bossWindup <= 0) {
+                boss.bossWindup = undefined;
+                this.bossAttack(boss, def);
+                boss.bossPhase = (boss.bossPhase ?? 0) + 1;
+                boss.bossActionTimer = Math.max(BOSS_MIN_COOLDOWN, def.cooldown - this.wave);
+            }
+            return;
+        }
+
+        boss.bossActionTimer = (boss.bossActionTimer ?? 0) - delta;
+        if (boss.bossActionTimer <= 0) this.telegraphBossAttack(boss, def);
+    }
+
+    // Starts the windup: the aim is fixed now, and where a slam lands is marked right away
+    telegraphBossAttack(boss: Entity, def: BossDef) {
+        boss.bossWindup = def.windup;
+        boss.bossAim = { x: this.player.x, y: this.player.y };
+        this.hooks.text?.(def.title, boss.x, boss.y - boss.radius - 20, def.accent);
+
+        if (def.attack === 'slam') {
+            this.spawnSlam(boss.bossAim.x, boss.bossAim.y, SLAM_RADIUS, def.windup, def.accent);
+        }
+        if (def.attack === 'blink') {
+            const angle = this.rng.gameplay.next() * Math.PI * 2;
+            const dist = this.rng.gameplay.next() * BLINK_RANGE;
+            const landing = { x: this.player.x + Math.cos(angle) * dist, y: this.player.y + Math.sin(angle) * dist, radius: boss.radius };
+            this.clampToArena(landing);
+            boss.bossAim = { x: landing.x, y: landing.y };
+            this.spawnSlam(landing.x, landing.y, BLINK_SLAM_RADIUS, def.windup, def.accent);
+        }
+    }
+
+    bossAttack(boss: Entity, def: BossDef) {
+        const aim = boss.bossAim ?? { x: this.player.x, y: this.player.y };
+        const angle = Math.atan2(aim.y - boss.y, aim.x - boss.x);
+        const phase = boss.bossPhase ?? 0;
+
+        switch (def.attack) {
+            case 'charge':
+                this.lunge(boss, angle, CHARGE_SPEED);
+                break;
+            case 'dash':
+                // The first rush goes where the windup aimed, the rest re-aim
+                this.lunge(boss, angle, DASH_SPEED);
+                for (let i = 1; i < DASH_COUNT; i++) {
+                    this.delayedActions.push({ timer: i * DASH_GAP, action: () => {
+                        if (boss.isDead) return;
+                        this.lunge(boss, Math.atan2(this.player.y - boss.y, this.player.x - boss.x), DASH_SPEED);
+                    }});
+                }
+                break;
+            case 'summon':
+                this.summonMinions(boss, def);
+                break;
+            case 'radial':
+                // Every other ring is turned half a gap, so standing still doesn't work twice
+                this.ringOfShots(boss, RADIAL_SHOTS, angle + (phase % 2) * Math.PI / RADIAL_SHOTS, def.accent);
+                break;
+            case 'spiral':
+                for (let v = 0; v < SPIRAL_VOLLEYS; v++) {
+                    this.delayedActions.push({ timer: v * SPIRAL_GAP, action: () => {
+                        if (boss.isDead) return;
+                        this.ringOfShots(boss, SPIRAL_ARMS, angle + v * SPIRAL_TURN * (phase % 2 ? -1 : 1), def.accent);
+                    }});
+                }
+                break;
+            case 'blink':
+                this.hooks.particles?.(boss.x, boss.y, def.accent, 12);
+                boss.x = boss.prevX = aim.x;
+                boss.y = boss.prevY = aim.y;
+                boss.knockbackVx = boss.knockbackVy = 0;
+                this.resolveObstacles(boss);
+                this.hooks.particles?.(boss.x, boss.y, def.accent, 12);
+                break;
+            case 'shield':
+                boss.shieldTimer = SHIELD_DURATION;
+                this.hooks.particles?.(boss.x, boss.y, def.accent, 10);
+                break;
+            case 'attune': {
+                const current = ATTUNE_CYCLE.findIndex(a => a.element === boss.immuneElement);
+                const next = ATTUNE_CYCLE[(current + 1) % ATTUNE_CYCLE.length];
+                boss.immuneElement = next.element;
+                this.hooks.text?.(`免疫 ${next.name}`, boss.x, boss.y - boss.radius - 20, next.color);
+                this.ringOfShots(boss, RADIAL_SHOTS / 2, angle, next.color);
+                break;
+            }
+            case 'split':
+            case 'slam':
+                this.lunge(boss, angle, LUNGE_SPEED);
+                break;
+        }
+    }
+
+    lunge(e: Entity, angle: number, speed: number) {
+        e.knockbackVx = Math.cos(angle) * speed;
+        e.knockbackVy = Math.sin(angle) * speed;
+    }
+
+    summonMinions(boss: Entity, def: BossDef) {
+        const count = SUMMON_COUNT + Math.floor(this.wave / 25);
+        for (let i = 0; i < count; i++) {
+            const angle = (i / count) * Math.PI * 2;
+            const minion = this.createWaveEnemy(i % 2 ? 'bat' : 'skull', boss.x + Math.cos(angle) * SUMMON_RING, boss.y + Math.sin(angle) * SUMMON_RING);
+            this.resolveObstacles(minion);
+            this.clampToArena(minion);
+            this.enemies.push(minion);
+            this.enemyGrid.insert(minion);
+            this.hooks.particles?.(minion.x, minion.y, def.accent, 6);
+        }
+    }
+
+    // 'split': two smaller halves take the boss's place, each with part of its health
+    splitBoss(parent: Entity) {
+        const generation = (parent.splitGeneration ?? 0) + 1;
+        [-1, 1].forEach(side => {
+            const half = this.createEntity('boss', parent.x + side * parent.radius, parent.y, parent.maxHp * SPLIT_HP, parent.radius * SPLIT_SCALE);
+            half.isBoss = true;
+            half.bossType = parent.bossType;
+            half.bossActionTimer = 60;
+            half.bossPhase = 0;
+            half.splitGeneration = generation;
+            half.baseScale = parent.baseScale * SPLIT_SCALE;
+            this.lunge(half, side > 0 ? 0 : Math.PI, 8);
+            this.clampToArena(half);
+            this.enemies.push(half);
+            this.enemyGrid.insert(half);
+        });
+        this.hooks.text?.(bossDef(parent.bossType).title, parent.x, parent.y - parent.radius - 20, bossDef(parent.bossType).accent);
+    }
+
+    // Splitting leaves plain, smaller copies behind; explosive marks a blast where it fell
+    eliteDeath(e: Entity, affixes: AffixId[]) {
+        const split = affixSum(affixes, 'split');
+        for (let i = 0; i < split; i++) {
+            const angle = (i / split) * Math.PI * 2;
+            const child = this.createWaveEnemy(e.enemyType as WaveEnemyType, e.x + Math.cos(angle) * e.radius, e.y + Math.sin(angle) * e.radius);
+            child.maxHp *= SPLIT_CHILD_HP;
+            child.hp = child.maxHp;
+            child.radius *= SPLIT_CHILD_SCALE;
+            child.baseScale *= SPLIT_CHILD_SCALE;
+            this.resolveObstacles(child);
+            this.clampToArena(child);
+            this.enemies.push(child);
+            this.enemyGrid.insert(child);
+        }
+        affixes.forEach(id => {
+            const blast = AFFIX_DEFS[id].explode;
+            if (blast) this.spawnSlam(e.x, e.y, blast.radius, blast.warmup, AFFIX_DEFS[id].color, blast.damage + this.wave * blast.perWave);
+        });
+    }
+
+    // --- Hazards ---
+
+    ringOfShots(from: Entity, count: number, startAngle: number, color: number) {
+        for (let i = 0; i < count; i++) this.fireShot(from, startAngle + (i / count) * Math.PI * 2, color);
+    }
+
+    // A hostile shot leaving `from`'s edge
+    fireShot(from: Entity, angle: number, color: number) {
+        const x = from.x + Math.cos(angle) * from.radius;
+        const y = from.y + Math.sin(angle) * from.radius;
+        this.hazards.push({
+            id: this.nextObjectId++,
+            kind: 'shot',
+            x, y, prevX: x, prevY: y,
+            vx: Math.cos(angle) * SHOT_SPEED,
+            vy: Math.sin(angle) * SHOT_SPEED,
+            radius: SHOT_RADIUS,
+            damage: 8 + this.wave * 0.4,
+            life: SHOT_LIFE,
+            maxLife: SHOT_LIFE,
+            color,
+            faction: 'enemy',
+            isDead: false
+        });
+    }
+
+    // Marked on the ground for `warmup` ticks, then hurts the player if still inside
+    spawnSlam(x: number, y: number, radius: number, warmup: number, color: number, damage = 20 + this.wave) {
+        this.hazards.push({
+            id: this.nextObjectId++,
+            kind: 'slam',
+            x, y, prevX: x, prevY: y,
+            vx: 0, vy: 0,
+            radius,
+            damage,
+            life: warmup,
+            maxLife: warmup,
+            color,
+            faction: 'enemy',
+            isDead: false
+        });
+    }
+
+    updateHazards(delta: number) {
+        this.hazards.forEach(h => {
+            h.x += h.vx * delta;
+            h.y += h.vy * delta;
+            h.life -= delta;
+            if (h.life > 0) return;
+
+            h.isDead = true;
+            if (h.kind === 'slam') {
+                this.hooks.slam?.(h.x, h.y, h.radius, h.color);
+                if (Math.hypot(this.player.x - h.x, this.player.y - h.y) < h.radius + this.player.radius) this.hurtPlayer(h.damage);
+            }
+        });
+        this.hazards = this.hazards.filter(h => !h.isDead);
+    }
+
+    updateBullets(delta: number) {
+        this.bullets.forEach(b => {
+            if (b.isDead) return;
+
+            // --- Universal Wobble Logic ---
+            if (b.isWobble) {
+                if (b.wobblePhase === undefined) b.wobblePhase = 0;
+                b.wobblePhase += 0.2 * delta;
+
+                // For directional things (projectiles, snakes)
+                if (b.vx !== 0 || b.vy !== 0) {
+                    const len = Math.hypot(b.vx, b.vy);
+                    if (len > 0) {
+                        const px = -b.vy / len;
+                        const py = b.vx / len;
+                        const offset = Math.sin(b.wobblePhase) * 2 * delta;
+                        b.x += b.vx * delta + px * offset;
+                        b.y += b.vy * delta + py * offset;
+                        // Don't return, allow other updates
+                    }
+                }
+                // For static things (Wind/Fire/Area), we might want to jiggle position
+                else if (b.element === ElementType.FIRE || b.element === ElementType.WIND) {
+                     b.x = this.player.x + Math.sin(b.wobblePhase) * 5;
+                     b.y = this.player.y + Math.cos(b.wobblePhase) * 5;
+                }
+            } else {
+                // Normal movement if not wobbling directional
+                 if (b.vx !== 0 || b.vy !== 0 && !b.isWobble) {
+                    b.x += b.vx * delta;
+                    b.y += b.vy * delta;
+                 }
+            }
+
+            // --- Orbit / Beam ---
+            if (b.projectileType === 'orbit') {
+                this.updateOrbiter(b, delta);
+                return;
+            }
+            if (b.projectileType === 'beam') {
+                this.updateBeam(b, delta);
+                return;
+            }
+
+            // --- Expanding Areas ---
+            if (b.element === ElementType.WIND && isBlast(b)) {
+                // Ensure giant scale is respected in growth
+                const growth = 0.08 * delta;
+                b.scale += growth;
+                b.alpha -= 0.02 * delta;
+                if (b.alpha <= 0) this.killBullet(b);
+                b.duration -= delta;
+                return;
+            }
+            if (b.element === ElementType.FIRE && isBlast(b)) {
+                 const t = 1 - (b.duration / b.maxDuration);
+                 // Apply giant to the time-based expansion
+                 const baseScale = 1 + (b.giantCount || 0) * 0.5;
+                 b.scale = baseScale * (1 + t * 1);
+
+                 b.alpha = 1 - t;
+                 b.duration -= delta;
+                 if (b.duration <= 0) this.killBullet(b);
+                 return;
+            }
+
+            if (b.projectileType === 'water_snake') {
+                // Scale based on giant count too
+                const baseScale = 1 + (b.giantCount || 0) * 0.5;
+                b.scale = Math.max(0.1, b.duration / 60) * baseScale;
+
+                b.rotation += Math.sin(b.duration * 0.2) * 0.05;
+                // Wobble handled above generic check, but snake needs direction update
+                if (!b.isWobble) {
+                    b.vx = Math.cos(b.rotation) * 6;
+                    b.vy = Math.sin(b.rotation) * 6;
+                }
+            }
+
+            // --- Stream droplets slow and fade ---
+            if (b.projectileType === 'stream') {
+                b.vx *= Math.pow(STREAM_DRAG, delta);
+                b.vy *= Math.pow(STREAM_DRAG, delta);
+                b.alpha = Math.min(1, b.duration / (b.maxDuration * 0.5));
+            }
+
+            b.duration -= delta;
+            if (b.duration <= 0 || b.alpha <= 0) {
+                this.killBullet(b);
+                return;
+            }
+
+            // Arena walls stop anything in flight
+            if (this.mapType === MapType.FIXED && b.projectileType !== 'minion' && !this.isInsideArena(b.x, b.y)) {
+                this.killBullet(b);
+                return;
+            }
+
+            // --- Boomerang ---
+            if (b.isBoomerang) {
+                if (!b.isReturning && b.duration <= b.maxDuration / 2) {
+                    b.isReturning = true;
+                    b.duration = b.maxDuration; // Time to fly all the way back
+                    b.hitList.clear();          // Hits again on the way home
+                }
+                if (b.isReturning) {
+                    const dx = this.player.x - b.x;
+                    const dy = this.player.y - b.y;
+                    const dist = Math.hypot(dx, dy);
+                    if (dist < 20) {
+                        this.killBullet(b);
+                        return;
+                    }
+                    const speed = Math.hypot(b.vx, b.vy);
+                    b.vx = (dx / dist) * speed;
+                    b.vy = (dy / dist) * speed;
+                    if (b.projectileType === 'water_snake') b.rotation = Math.atan2(dy, dx);
+                    else if (b.projectileType === 'projectile') b.rotation = Math.atan2(dy, dx) + Math.PI/2;
+                }
+            }
+
+            // --- Minion Logic ---
+            if (b.projectileType === 'minion') {
+                if (!b.state) b.state = 'IDLE';
+                if (!b.attackTimer) b.attackTimer = 0;
+
+                if (b.state === 'IDLE') {
+                    if (b.orbitAngle === undefined) b.orbitAngle = 0;
+                    b.orbitAngle += 0.02 * delta;
+                    const targetX = this.player.x + Math.cos(b.orbitAngle) * 50;
+                    const targetY = this.player.y + Math.sin(b.orbitAngle) * 50 - 30;
+
+                    b.x += (targetX - b.x) * 0.1 * delta;
+                    b.y += (targetY - b.y) * 0.1 * delta;
+                    b.rotation = 0;
+
+                    if (b.attackTimer > 0) b.attackTimer -= delta;
+                    else {
+                        const closest = this.nearestEnemy(this.player.x, this.player.y, 500);
+                        if (closest) {
+                            b.state = 'ATTACK';
+                            b.target = closest;
+                        }
+                    }
+                }
+                else if (b.state === 'ATTACK') {
+                     if (!b.target || b.target.isDead) {
+                         b.state = 'IDLE';
+                         b.target = null;
+                         return;
+                     }
+                     const dx = b.target.x - b.x;
+                     const dy = b.target.y - b.y;
+                     const dist = Math.hypot(dx, dy);
+
+                     if (dist > 20) {
+                         b.x += (dx/dist) * 15 * delta;
+                         b.y += (dy/dist) * 15 * delta;
+                         b.rotation = Math.atan2(dy, dx) + Math.PI/2;
+                     } else {
+                         b.state = 'SLASH';
+                         b.attackTimer = 15;
+                     }
+                }
+                else if (b.state === 'SLASH') {
+                    b.rotation += 0.5 * delta;
+                    b.attackTimer! -= delta;
+                    this.enemyGrid.query(b.x, b.y, 50).forEach(e => {
+                        if (e.isDead) return;
+                        const d = Math.hypot(e.x - b.x, e.y - b.y);
+                        if (d < 50) {
+                            this.applyDamage(e, b);
+                        }
+                    });
+
+                    if (b.attackTimer! <= 0) {
+                        b.state = 'IDLE';
+                        b.attackTimer = 20;
+                    }
+                }
+                if (this.gameTime % 10 === 0) b.hitList.clear();
+            }
+            // --- Standard Projectiles Tracking ---
+            else if (b.isTracking && !b.isWobble && !b.isReturning) {
+                const nearest = this.nearestEnemy(b.x, b.y, 1000);
+                if (nearest) {
+                    const angle = Math.atan2(nearest.y - b.y, nearest.x - b.x);
+                    b.vx = b.vx * 0.9 + Math.cos(angle) * 2;
+                    b.vy = b.vy * 0.9 + Math.sin(angle) * 2;
+                }
+                b.x += b.vx * delta;
+                b.y += b.vy * delta;
+            }
+        });
+
+        this.bullets = this.bullets.filter(b => !b.isDead);
+    }
+
+    updateOrbiter(b: Bullet, delta: number) {
+        const rest = b.orbitRadius ?? ORBIT_RADIUS;
+        let reachGoal = rest;
+        if (b.isTracking) {
+            const target = this.nearestEnemy(this.player.x, this.player.y, rest + ORBIT_TRACK_REACH);
+            if (target) reachGoal = Math.max(rest, Math.hypot(target.x - this.player.x, target.y - this.player.y));
+        }
+        b.orbitReach = (b.orbitReach ?? rest) + (reachGoal - (b.orbitReach ?? rest)) * 0.1 * delta;
+
+        b.orbitAngle = (b.orbitAngle ?? 0) + (b.orbitSpeed ?? ORBIT_SPEED) * delta;
+        let reach = b.orbitReach;
+        if (b.isWobble) {
+            b.wobblePhase = (b.wobblePhase ?? 0) + 0.2 * delta;
+            reach += Math.sin(b.wobblePhase) * 15;
+        }
+        b.x = this.player.x + Math.cos(b.orbitAngle) * reach;
+        b.y = this.player.y + Math.sin(b.orbitAngle) * reach;
+        b.rotation += 0.1 * delta;
+
+        if (this.gameTime % ORBIT_REHIT === 0) b.hitList.clear();
+    }
+
+    // Channelled from the player, turning toward the aim at a limited rate
+    updateBeam(b: Bullet, delta: number) {
+        b.x = this.player.x;
+        b.y = this.player.y;
+
+        const goal = this.aimAngle(this.isAutoAim || !!b.isTracking) + (b.beamOffset ?? 0);
+        const turn = BEAM_TURN_RATE * (b.isTracking ? 2.5 : 1) * delta;
+        const diff = Math.atan2(Math.sin(goal - b.rotation), Math.cos(goal - b.rotation));
+        b.rotation += Math.max(-turn, Math.min(turn, diff));
+
+        let heading = b.rotation;
+        if (b.isWobble) {
+            b.wobblePhase = (b.wobblePhase ?? 0) + 0.15 * delta;
+            heading += Math.sin(b.wobblePhase) * 0.25;
+        }
+        const dx = Math.cos(heading);
+        const dy = Math.sin(heading);
+        const range = b.beamRange ?? BEAM_RANGE;
+
+        // Cut short at the first obstacle or arena wall
+        let t = 1;
+        if (!b.ignoreBlockers) {
+            const ex = b.x + dx * range;
+            const ey = b.y + dy * range;
+            const candidates = this.obstacleGrid.queryRect(
+                Math.min(b.x, ex) - OBSTACLE_REACH, Math.min(b.y, ey) - OBSTACLE_REACH,
+                Math.max(b.x, ex) + OBSTACLE_REACH, Math.max(b.y, ey) + OBSTACLE_REACH
+            );
+            for (const o of candidates) {
+                const hit = sweepBox(b.x, b.y, ex, ey, obstacleBox(o));
+                if (hit && hit.t < t) t = hit.t;
+            }
+        }
+        if (this.mapType === MapType.FIXED) {
+            if (dx !== 0) t = Math.min(t, (Math.sign(dx) * ARENA_HALF_SIZE - b.x) / (dx * range));
+            if (dy !== 0) t = Math.min(t, (Math.sign(dy) * ARENA_HALF_SIZE - b.y) / (dy * range));
+        }
+        b.beamLength = range * Math.max(0, t);
+        b.vx = dx; // Unit heading for the hit test
+        b.vy = dy;
+
+        b.alpha = Math.min(1, b.duration / 10);
+        b.duration -= delta;
+        if (b.duration <= 0) {
+            this.killBullet(b);
+            return;
+        }
+        if (this.gameTime % BEAM_TICK === 0) b.hitList.clear();
+    }
+
+    killBullet(b: Bullet) {
+        b.isDead = true;
+    }
+
+    updateXP(delta: number) {
+        // Magnetized orbs fly in from anywhere, the rest only once the player is near
+        this.orbGrid.rebuild(this.xpOrbs);
+        const pulled = this.xpOrbs.filter(orb => orb.isMagnetized);
+        this.orbGrid.query(this.player.x, this.player.y, this.stats.pickupRange).forEach(orb => {
+            if (!orb.isMagnetized) pulled.push(orb);
+        });
+
+        pulled.forEach(orb => {
+            const dx = this.player.x - orb.x;
+            const dy = this.player.y - orb.y;
+            const dist = Math.sqrt(dx*dx + dy*dy);
+
+            if (orb.isMagnetized || dist < this.stats.pickupRange) {
+                const speed = orb.isMagnetized ? 25 : 8;
+                orb.x += (dx/dist) * speed * delta;
+                orb.y += (dy/dist) * speed * delta;
+
+                if (dist < 10) {
+                    this.stats.xp += orb.value;
+                    orb.isCollected = true;
+                    if (this.stats.xp >= this.stats.nextLevelXp) {
+                        this.startLevelUpSequence();
+                    }
+                }
+            }
+        });
+        this.xpOrbs = this.xpOrbs.filter(o => !o.isCollected);
+    }
+
+    handleCollisions(delta: number) {
+        if (this.player.invulnTimer <= 0) {
+            for (const e of this.enemyGrid.query(this.player.x, this.player.y, this.player.radius)) {
+                 if (e.isDead) continue;
+                 const dx = this.player.x - e.x;
+                 const dy = this.player.y - e.y;
+                 const dist = Math.sqrt(dx * dx + dy * dy);
+                 if (dist < (this.player.radius + e.radius)) {
+                     this.hurtPlayer(e.isBoss ? 20 + this.wave : 5 + (this.wave * 0.5));
+                     const lifesteal = affixSum(e.affixes, 'lifesteal');
+                     if (lifesteal > 0) e.hp = Math.min(e.maxHp, e.hp + e.maxHp * lifesteal);
+                     break;
+                 }
+            }
+        }
+
+        // Shots, swept over this tick's movement; hostile ones keep flying through the invulnerable player
+        this.deflectShots();
+        for (const h of this.hazards) {
+            if (h.isDead || h.kind !== 'shot') continue;
+            if (h.faction === 'player') {
+                this.deflectedShotHits(h);
+                continue;
+            }
+            if (this.player.invulnTimer > 0) continue;
+            if (sweepCircle(h.prevX, h.prevY, h.x, h.y, this.player.x, this.player.y, h.radius + this.player.radius) !== null) {
+                h.isDead = true;
+                this.hurtPlayer(h.damage);
+            }
+        }
+
+        for (const b of this.bullets) {
+            if (b.isDead) continue;
+            if (b.projectileType === 'beam') {
+                this.beamHits(b);
+                continue;
+            }
+            const blocked = this.collideBulletWithObstacles(b) === 'stop';
+            if (blocked) {
+                this.hooks.particles?.(b.x, b.y, b.color, 3);
+                this.killBullet(b); // Still hits whatever it passed on the way in
+            }
+            if (b.projectileType === 'minion' && b.state !== 'SLASH') continue;
+
+            let hitRadius = b.radius;
+            // Scale hitbox for wind/water
+            if (b.element === ElementType.WIND || b.element === ElementType.WATER) hitRadius *= b.scale;
+
+            // Swept test over this tick's movement, hits resolved in travel order
+            const hits: { e: Entity, t: number }[] = [];
+            const candidates = this.enemyGrid.queryRect(
+                Math.min(b.prevX, b.x) - hitRadius, Math.min(b.prevY, b.y) - hitRadius,
+                Math.max(b.prevX, b.x) + hitRadius, Math.max(b.prevY, b.y) + hitRadius
+            );
+            for (const e of candidates) {
+                if (e.isDead) continue;
+                if (b.hitList.has(e.id)) continue;
+
+                const t = sweepCircle(b.prevX, b.prevY, b.x, b.y, e.x, e.y, hitRadius + e.radius);
+                if (t !== null) hits.push({ e, t });
+            }
+            hits.sort((h1, h2) => h1.t - h2.t);
+
+            for (const { e } of hits) {
+                if (e.isDead) continue;
+                this.applyDamage(e, b);
+                b.hitList.add(e.id);
+
+                b.pierce--;
+                if (b.pierce <= 0) {
+                    this.killBullet(b);
+                    break;
+                }
+            }
+        }
+    }
+
+    // Wind hits blow hostile shots away from the gust, and they turn on the enemies
+    deflectShots() {
+        const shots = this.hazards.filter(h => !h.isDead && h.kind === 'shot' && h.faction === 'enemy');
+        if (shots.length === 0) return;
+        for (const b of this.bullets) {
+            if (b.isDead || b.element !== ElementType.WIND) continue;
+            const reach = b.radius * b.scale; // Same reach as its hits on enemies
+            for (const h of shots) {
+                if (h.faction !== 'enemy') continue;
+                const dx = h.x - b.x;
+                const dy = h.y - b.y;
+                if (Math.hypot(dx, dy) >= reach + h.radius) continue;
+
+                const angle = dx !== 0 || dy !== 0 ? Math.atan2(dy, dx) : Math.atan2(-h.vy, -h.vx);
+                const speed = Math.hypot(h.vx, h.vy) * DEFLECT_SPEEDUP;
+                h.vx = Math.cos(angle) * speed;
+                h.vy = Math.sin(angle) * speed;
+                h.faction = 'player';
+                h.ownerId = b.ownerId;
+                h.life = h.maxLife;
+                this.hooks.particles?.(h.x, h.y, 0xa5f3fc, 3);
+            }
+        }
+    }
+
+    // A deflected shot ends on the first enemy it sweeps through, as a wind hit from its card
+    deflectedShotHits(h: Hazard) {
+        let first: { e: Entity, t: number } | null = null;
+        const candidates = this.enemyGrid.queryRect(
+            Math.min(h.prevX, h.x) - h.radius, Math.min(h.prevY, h.y) - h.radius,
+            Math.max(h.prevX, h.x) + h.radius, Math.max(h.prevY, h.y) + h.radius
+        );
+        for (const e of candidates) {
+            if (e.isDead) continue;
+            const t = sweepCircle(h.prevX, h.prevY, h.x, h.y, e.x, e.y, h.radius + e.radius);
+            if (t !== null && (!first || t < first.t)) first = { e, t };
+        }
+        if (!first) return;
+
+        h.isDead = true;
+        const dmg = this.strike(first.e, ElementType.WIND, h.damage * this.stats.damageMultiplier, h.ownerId ?? 'deflect');
+        if (dmg > 0) {
+            first.e.hitFlashTimer = 5;
+            this.hooks.damageNumber?.(dmg, first.e.x, first.e.y - 20);
+        }
+    }
+
+    // Ignored while the player is invulnerable from the last hit
+    hurtPlayer(dmg: number) {
+        if (this.player.invulnTimer > 0) return;
+        this.player.hp -= dmg;
+        this.player.invulnTimer = 30;
+        this.hooks.playerHit?.(dmg);
+        this.hooks.text?.("-HP", this.player.x, this.player.y - 30, 0xff0000);
+        if (this.player.hp <= 0) {
+            this.player.hp = 0;
+            this.setState(GameState.GAME_OVER);
+        }
+    }
+
+    // Everything touching the beam's current length that it hasn't hit this beam tick
+    beamHits(b: Bullet) {
+        const length = b.beamLength ?? 0;
+        const ex = b.x + b.vx * length;
+        const ey = b.y + b.vy * length;
+        const candidates = this.enemyGrid.queryRect(
+            Math.min(b.x, ex) - b.radius, Math.min(b.y, ey) - b.radius,
+            Math.max(b.x, ex) + b.radius, Math.max(b.y, ey) + b.radius
+        );
+        for (const e of candidates) {
+            if (e.isDead || b.hitList.has(e.id)) continue;
+            const along = Math.max(0, Math.min(length, (e.x - b.x) * b.vx + (e.y - b.y) * b.vy));
+            const d = Math.hypot(e.x - (b.x + b.vx * along), e.y - (b.y + b.vy * along));
+            if (d < b.radius + e.radius) {
+                this.applyDamage(e, b);
+                b.hitList.add(e.id);
+            }
+        }
+    }
+
+    applyDamage(e: Entity, b: Bullet) {
+        if (b.element === ElementType.WIND) {
+            const angle = Math.atan2(e.y - b.y, e.x - b.x);
+            // More knockback
+            e.knockbackVx += Math.cos(angle) * 20;
+            e.knockbackVy += Math.sin(angle) * 20;
+        }
+
+        if (b.element === ElementType.WATER) {
+            const angle = Math.atan2(e.y - b.y, e.x - b.x);
+            e.knockbackVx += Math.cos(angle) * 5;
+            e.knockbackVy += Math.sin(angle) * 5;
+        }
+
+        // Statuses and reactions, see reactions/
+        const dmg = this.strike(e, b.element, b.damage, b.ownerId, b.inflicts);
+        if (dmg > 0) {
+            e.hitFlashTimer = 5;
+            this.hooks.damageNumber?.(dmg, e.x, e.y - 20);
+        }
+        if (b.splash && dmg > 0) this.splashDamage(e, b.splash.radius, dmg * b.splash.share, { cardId: b.ownerId, element: b.element });
+
+        if (this.rng.cosmetic.next() > 0.5) this.hooks.particles?.(e.x, e.y, b.color, 2);
+    }
+
+    // Damage around a struck enemy, not to it
+    splashDamage(origin: Entity, radius: number, dmg: number, source: DamageSource) {
+        this.hooks.particles?.(origin.x, origin.y, 0xffffff, 4);
+        this.enemyGrid.query(origin.x, origin.y, radius).forEach(e => {
+            if (e.isDead || e === origin || Math.hypot(e.x - origin.x, e.y - origin.y) >= radius) return;
+            const dealt = dmg * this.damageTaken(e, source.element);
+            e.hp -= dealt;
+            this.recordDamage(e, source, dealt);
+            if (e.hp <= 0) this.killEnemy(e);
+        });
+    }
+
+    // Call after taking the hp off, so kills and overkill can be told
+    recordDamage(target: Entity, source: DamageSource, dmg: number) {
+        const name = this.stats.inventory.find(c => c.id === source.cardId)?.name ?? source.cardId;
+        recordHit(this.damage, source, name, dmg, target.hp, this.gameTime);
+        this.hooks.damageDealt?.(target, source, dmg);
+    }
+
+    killEnemy(e: Entity) {
+        if (e.isDead) return;
+        e.isDead = true;
+        this.kills++;
+        this.hooks.enemyKilled?.(e);
+        if (e.splitGeneration !== undefined && e.splitGeneration < SPLIT_GENERATIONS) this.splitBoss(e);
+        if (e.affixes) this.eliteDeath(e, e.affixes);
+
+        // --- Enhanced XP Drop System ---
+        // Elites drop an orb more per affix, each rolled higher
+        const drops = e.affixes ? 1 + e.affixes.length : 1;
+        for (let i = 0; i < drops; i++) {
+            const roll = this.rng.gameplay.next() * 100 + (this.wave * 0.5) + (e.affixes ? ELITE_LOOT_BONUS : 0); // Increase quality chance with wave
+
+            let val = 1;
+            let tier = 0;
+
+            // Tiers: Gray -> Green -> Blue -> Orange -> Red -> Prism
+            if (roll > 150) { val = 100; tier = 5; }
+            else if (roll > 110) { val = 50; tier = 4; }
+            else if (roll > 80) { val = 20; tier = 3; }
+            else if (roll > 50) { val = 10; tier = 2; }
+            else if (roll > 20) { val = 5; tier = 1; }
+
+            // Base value scaling
+            val *= (1 + this.wave * 0.1);
+
+            // Extra orbs fan out around the corpse
+            const angle = (i / drops) * Math.PI * 2;
+            const spread = i > 0 ? e.radius : 0;
+            const x = e.x + Math.cos(angle) * spread;
+            const y = e.y + Math.sin(angle) * spread;
+            this.xpOrbs.push({
+                id: this.nextObjectId++,
+                x,
+                y,
+                prevX: x,
+                prevY: y,
+                value: val,
+                tier,
+                isCollected: false
+            });
+        }
+
+        // The last boss standing on the script's final wave (split halves count too)
+        if (e.isBoss && this.wave === findWaveScript(this.waveScriptId).victoryWave && !this.enemies.some(o => o.isBoss && !o.isDead)) {
+            this.setState(GameState.VICTORY);
+        }
+    }
+
+    startLevelUpSequence() {
+        this.preLevelUpTimer = 60;
+        this.setState(GameState.PRE_LEVEL_UP);
+        this.hooks.text?.("LEVEL UP!", this.player.x, this.player.y - 50, 0xffd700);
+    }
+
+    triggerLevelUpUI() {
+        this.state = GameState.LEVEL_UP;
+        this.levelUpOptions = this.rollLevelUpOptions();
+        this.hooks.stateChanged?.(GameState.LEVEL_UP);
+        this.stats.level++;
+        this.stats.xp = 0;
+        // Exponential XP curve
+        this.stats.nextLevelXp = Math.floor(20 + Math.pow(this.stats.level, 2.2) * 5);
+        this.hooks.levelUp?.(this.stats.level, this.levelUpOptions);
+    }
+
+    // Offers are rolled from the gameplay stream, so they are part of the seeded run
+    rollLevelUpOptions(count = 3): CardDef[] {
+        const opts: CardDef[] = [];
+        for(let i=0; i<count; i++) {
+            opts.push(getRandomCard(this.rng.gameplay, this.wave, this.stats.inventory, opts));
+        }
+
+        // An evolution whose parts are owned may take the last slot
+        const evolutions = offerableEvolutions(ALL_EVOLUTIONS, this.stats.inventory);
+        if (evolutions.length > 0 && this.rng.gameplay.next() < EVOLUTION_OFFER_CHANCE) {
+            const template = findCardTemplate(this.rng.gameplay.pick(evolutions).into);
+            if (template) opts[count - 1] = instantiateCard(template, this.rng.gameplay.id());
+        }
+        return opts;
+    }
+
+    grantCard(card: CardDef) {
+        const recipe = card.evolved ? findEvolution(card) : undefined;
+        const parts = recipe ? evolutionParts(recipe, this.stats.inventory) : null;
+        if (recipe && parts) {
+            this.evolve(recipe, parts);
+        } else if (card.type === CardType.STAT && card.statBonus) {
+            if (card.statBonus.hpPercent) {
+                const increase = this.stats.maxHp * card.statBonus.hpPercent;
+                this.stats.maxHp += increase;
+                this.player.maxHp = this.stats.maxHp;
+                this.player.hp += increase;
+            }
+            if (card.statBonus.dmgPercent) this.stats.damageMultiplier *= (1 + card.statBonus.dmgPercent);
+            if (card.statBonus.pickupPercent) this.stats.pickupRange *= (1 + card.statBonus.pickupPercent);
+        } else if (!(card.type === CardType.ARTIFACT && this.levelUpArtifact(card.name))) {
+            this.stats.inventory.push(card);
+        }
+        this.hooks.cardAdded?.(card);
+    }
+
+    // A second copy of an owned artifact levels up the one on the board instead
+    levelUpArtifact(name: string): boolean {
+        const index = this.stats.inventory.findIndex(c => c.type === CardType.ARTIFACT && c.name === name);
+        const upgraded = index === -1 ? null : nextLevelCard(this.stats.inventory[index]);
+        if (!upgraded) return false;
+        this.stats.inventory[index] = upgraded;
+        this.hooks.text?.(`${name} Lv${cardLevel(upgraded)}`, this.player.x, this.player.y - 60, 0xffd700);
+        return true;
+    }
+
+    // Every recipe whose parts now share a SpellBoard row
+    evolveReady() {
+        ALL_EVOLUTIONS.forEach(recipe => {
+            const parts = evolutionParts(recipe, this.stats.inventory, this.spellLayout);
+            if (parts) this.evolve(recipe, parts);
+        });
+    }
+
+    // The evolved card takes the artifact's place, the partner is used up
+    evolve(recipe: EvolutionRecipe, { artifact, partner }: EvolutionParts) {
+        const result = evolutionResult(artifact, recipe);
+        if (!result) return;
+
+        this.stats.inventory = this.stats.inventory
+            .filter(c => c !== partner)
+            .map(c => c === artifact ? result : c);
+        delete this.spellLayout.layoutMap[partner.id];
+        // Guardians and minions come back with the new card's stats
+        this.bullets.forEach(b => { if (b.ownerId === artifact.id || b.ownerId === partner.id) this.killBullet(b); });
+
+        this.hooks.text?.(`EVOLVED: ${result.name}`, this.player.x, this.player.y - 60, 0x38bdf8);
+        this.hooks.screenFlash?.(0x38bdf8);
+        this.hooks.evolved?.(result, recipe);
+    }
+
+    // The fused card takes the first copy's place, the other copies are used up
+    fuseCards(cardIds: string[]) {
+        const copies = cardIds.map(id => this.stats.inventory.find(c => c.id === id)).filter(Boolean) as CardDef[];
+        if (copies.length !== cardIds.length || !isFusion(copies)) return;
+        const result = fusionResult(copies);
+        if (!result) return;
+
+        this.stats.inventory = this.stats.inventory
+            .filter(c => c === copies[0] || !copies.includes(c))
+            .map(c => c === copies[0] ? result : c);
+        this.hooks.text?.(`FUSION: ${result.name}`, this.player.x, this.player.y - 60, 0xd946ef);
+    }
+
+    // --- GM / DEBUG ---
+    setWave(w: number) {
+        this.wave = w;
+        this.waveTotalEnemies = this.waveSpec().count;
+        this.hooks.waveStarted?.(this.wave, this.waveTotalEnemies);
+        this.hooks.text?.(`GM: WAVE ${w}`, this.player.x, this.player.y - 50, 0xff00ff);
+    }
+
+    removeCard(index: number) {
+        if (index >= 0 && index < this.stats.inventory.length) {
+            const [card] = this.stats.inventory.splice(index, 1);
+            // Orbiters and minions would otherwise outlive their card
+            if (!this.stats.inventory.some(c => c.id === card.id)) {
+                this.bullets.forEach(b => { if (b.ownerId === card.id) this.killBullet(b); });
+            }
+        }
+    }
+}
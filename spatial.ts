@@ -0,0 +1,137 @@
+
+// --- Spatial Hash ---
+// Uniform grid over world space, rebuilt from scratch whenever the simulation needs
+// fresh positions. Items are bucketed by centre; queries widen by the largest radius
+// inserted so circles that poke into a cell from a neighbour are still found.
+// Results come back in cell order then insertion order, so runs stay deterministic.
+
+export interface SpatialItem {
+    x: number;
+    y: number;
+    radius?: number;
+}
+
+export class SpatialHash<T extends SpatialItem> {
+    readonly cellSize: number;
+    private cells: Map<number, T[]> = new Map();
+    private maxRadius = 0;
+    private count = 0;
+
+    // Occupied cell bounds, caps nearest() ring growth
+    private minCx = 0;
+    private maxCx = 0;
+    private minCy = 0;
+    private maxCy = 0;
+
+    constructor(cellSize: number) {
+        this.cellSize = cellSize;
+    }
+
+    get size() {
+        return this.count;
+    }
+
+    // Unique while |cy| < 2^19 cells, far beyond any reachable world position
+    private key(cx: number, cy: number) {
+        return cx * 0x100000 + cy;
+    }
+
+    private cellOf(v: number) {
+        return Math.floor(v / this.cellSize);
+    }
+
+    clear() {
+        this.cells.clear();
+        this.maxRadius = 0;
+        this.count = 0;
+    }
+
+    insert(item: T) {
+        const cx = this.cellOf(item.x);
+        const cy = this.cellOf(item.y);
+        const key = this.key(cx, cy);
+        let bucket = this.cells.get(key);
+        if (!bucket) {
+            bucket = [];
+            this.cells.set(key, bucket);
+        }
+        bucket.push(item);
+
+        if (this.count === 0) {
+            this.minCx = this.maxCx = cx;
+            this.minCy = this.maxCy = cy;
+        } else {
+            this.minCx = Math.min(this.minCx, cx);
+            this.maxCx = Math.max(this.maxCx, cx);
+            this.minCy = Math.min(this.minCy, cy);
+            this.maxCy = Math.max(this.maxCy, cy);
+        }
+        this.count++;
+        this.maxRadius = Math.max(this.maxRadius, item.radius || 0);
+    }
+
+    rebuild(items: T[]) {
+        this.clear();
+        for (const item of items) this.insert(item);
+    }
+
+    // Candidates whose circle may touch the rect; callers do the exact test
+    queryRect(minX: number, minY: number, maxX: number, maxY: number, out: T[] = []): T[] {
+        if (this.count === 0) return out;
+        const pad = this.maxRadius;
+        const x0 = Math.max(this.cellOf(minX - pad), this.minCx);
+        const x1 = Math.min(this.cellOf(maxX + pad), this.maxCx);
+        const y0 = Math.max(this.cellOf(minY - pad), this.minCy);
+        const y1 = Math.min(this.cellOf(maxY + pad), this.maxCy);
+
+        for (let cx = x0; cx <= x1; cx++) {
+            for (let cy = y0; cy <= y1; cy++) {
+                const bucket = this.cells.get(this.key(cx, cy));
+                if (bucket) {
+                    for (const item of bucket) out.push(item);
+                }
+            }
+        }
+        return out;
+    }
+
+    // Candidates whose circle may touch the given circle
+    query(x: number, y: number, radius: number, out: T[] = []): T[] {
+        return this.queryRect(x - radius, y - radius, x + radius, y + radius, out);
+    }
+
+    // Closest accepted item by centre distance, strictly under maxDist
+    nearest(x: number, y: number, maxDist: number, accept?: (item: T) => boolean): T | null {
+        if (this.count === 0) return null;
+
+        const cx = this.cellOf(x);
+        const cy = this.cellOf(y);
+        const maxRing = Math.max(
+            Math.abs(cx - this.minCx), Math.abs(cx - this.maxCx),
+            Math.abs(cy - this.minCy), Math.abs(cy - this.maxCy)
+        );
+
+        let best: T | null = null;
+        let bestD = maxDist;
+        for (let ring = 0; ring <= maxRing; ring++) {
+            // Everything in this ring or beyond is at least this far away
+            if ((ring - 1) * this.cellSize >= bestD) break;
+
+            for (let gx = cx - ring; gx <= cx + ring; gx++) {
+                // Edge columns take the full height, inner columns only the top and bottom cell
+                const isEdge = gx === cx - ring || gx === cx + ring;
+                const gyStep = isEdge || ring === 0 ? 1 : ring * 2;
+                for (let gy = cy - ring; gy <= cy + ring; gy += gyStep) {
+                    const bucket = this.cells.get(this.key(gx, gy));
+                    if (!bucket) continue;
+                    for (const item of bucket) {
+                        if (accept && !accept(item)) continue;
+                        const d = Math.hypot(item.x - x, item.y - y);
+                        if (d < bestD) { bestD = d; best = item; }
+                    }
+                }
+            }
+        }
+        return best;
+    }
+}
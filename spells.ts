@@ -0,0 +1,256 @@
+
+import { CardDef, CardType, ElementType, SpellLayout } from './types';
+
+// --- Spell Resolution ---
+// How the cards of one SpellBoard row combine, worked out from the cards alone. The
+// simulation casts from this and the SpellBoard previews it, so the two cannot disagree.
+//
+// Rules, left to right through the row:
+// - BUFF cards add to the buffs of the next artifact after them, or of the next `scope`
+//   ones; 'group' buffs reach every artifact in the row, wherever they sit. Buffs with an
+//   element only reach (and are only used up by) artifacts of that element.
+// - EFFECT cards become active effects with influenceCount uses. Each artifact uses one
+//   from every active effect; 'double' is also used up by any other non-buff card.
+// - Each active 'double' doubles how often the next card applies (MAX_CASTS at most):
+//   an artifact casts that many times, an effect card is added that many times.
+// - 'copy' makes an artifact echo the artifact before it once per copy (MAX_COPIES at most).
+
+type ArtifactConfig = NonNullable<CardDef['artifactConfig']>;
+type BuffConfig = NonNullable<CardDef['buffConfig']>;
+export type EffectLogic = NonNullable<CardDef['effectConfig']>['logic'];
+
+export interface BuffStats {
+    rangeMult: number;
+    speedMult: number;
+    freqMult: number;
+    durationMult: number;
+    damageMult: number;
+    pierce: number;
+}
+
+export const NO_BUFFS: BuffStats = { rangeMult: 1, speedMult: 1, freqMult: 1, durationMult: 1, damageMult: 1, pierce: 0 };
+
+export interface ActiveEffect {
+    logic: EffectLogic;
+    count: number;    // Uses left
+    sourceId: string; // Effect card it came from
+}
+
+// Effect modifiers as read from the active effects (see readCastFlags)
+export interface CastFlags {
+    fan: boolean;
+    ring: boolean;
+    back: boolean;
+    line: boolean;
+    track: boolean;
+    wobble: boolean;
+    giantCount: number;
+    reverse: boolean;
+    ignore: boolean;
+}
+
+// One artifact in a resolved row and everything that reaches it
+export interface ArtifactCast {
+    card: CardDef;
+    effects: ActiveEffect[]; // Snapshot, safe to keep for delayed casts
+    buffs: BuffStats;        // Snapshot
+    buffIds: string[];       // Buff cards that reached it
+    castCount: number;
+    copySource: CardDef | null; // Artifact echoed by 'copy', null when there is none
+    copies: number;
+}
+
+// Numbers shown in the SpellBoard preview for one artifact
+export interface CastPreview {
+    card: CardDef;
+    projectiles: number;     // Per cast: shots, lightning jumps or guardians
+    casts: number;
+    rangeMult: number;
+    cooldown: number | null; // Ticks between casts, null for persistent weapons
+    echoOf: CardDef | null;  // 'copy' target, cast `echoes` more times
+    echoes: number;
+}
+
+export const MAX_CASTS = 4;
+export const MAX_COPIES = 4;
+
+// 'line': extra shots in single file behind each projectile
+export const LINE_EXTRA_SHOTS = 2;
+// Orbit: guardians per card at most
+export const ORBIT_MAX = 12;
+
+// Splits the inventory into SpellBoard rows, keeping inventory order within each row.
+// Cards without a row yet (just picked up) go into the first one, as the board shows them.
+export const groupInventory = (inventory: CardDef[], layout: SpellLayout): CardDef[][] => {
+    const groups: CardDef[][] = Array.from({ length: layout.rowCount }, () => []);
+    inventory.forEach(card => {
+        let row = layout.layoutMap[card.id];
+        if (row === undefined || row < 0 || row >= layout.rowCount) row = 0;
+        groups[row].push(card);
+    });
+    return groups;
+};
+
+// A group with no artifact has nothing to cast, its effects and buffs do nothing
+export const isGroupActive = (group: CardDef[]) => group.some(card => card.type === CardType.ARTIFACT);
+
+export const isPersistentWeapon = (conf: ArtifactConfig) =>
+    conf.projectileType === 'orbit' || conf.projectileType === 'minion';
+
+export const isLightning = (conf: ArtifactConfig) =>
+    conf.element === ElementType.LIGHTNING || conf.element === ElementType.LIGHTNING_BLUE;
+
+const addBuff = (stats: BuffStats, buff: BuffConfig): BuffStats => ({
+    rangeMult: stats.rangeMult + (buff.range ?? 0),
+    speedMult: stats.speedMult + (buff.speed ?? 0),
+    freqMult: stats.freqMult + (buff.frequency ?? 0),
+    durationMult: stats.durationMult + (buff.duration ?? 0),
+    damageMult: stats.damageMult + (buff.damage ?? 0),
+    pierce: stats.pierce + (buff.pierce ?? 0)
+});
+
+interface PendingBuff {
+    card: CardDef;
+    left: number; // Artifacts it still reaches
+}
+
+export const resolveSpellGroup = (group: CardDef[]): ArtifactCast[] => {
+    const casts: ArtifactCast[] = [];
+    let activeEffects: ActiveEffect[] = [];
+    let previousArtifact: CardDef | null = null;
+
+    // Whole-row buffs are waiting before the first card
+    let pendingBuffs: PendingBuff[] = group
+        .filter(card => card.buffConfig?.scope === 'group')
+        .map(card => ({ card, left: Infinity }));
+
+    for (const card of group) {
+        if (card.type === CardType.BUFF && card.buffConfig) {
+            const scope = card.buffConfig.scope ?? 1;
+            if (scope !== 'group') pendingBuffs.push({ card, left: scope });
+            continue;
+        }
+
+        let executionCount = 1;
+        activeEffects.forEach(eff => {
+            if (eff.logic === 'double') executionCount *= 2;
+        });
+        executionCount = Math.min(executionCount, MAX_CASTS);
+
+        const newEffects: ActiveEffect[] = [];
+        if (card.type === CardType.EFFECT && card.effectConfig) {
+            for (let i = 0; i < executionCount; i++) {
+                newEffects.push({ logic: card.effectConfig.logic, count: card.effectConfig.influenceCount, sourceId: card.id });
+            }
+        }
+        else if (card.type === CardType.ARTIFACT && card.artifactConfig) {
+            const conf = card.artifactConfig;
+            const reaching = pendingBuffs.filter(p => p.card.buffConfig!.element === undefined || p.card.buffConfig!.element === conf.element);
+            reaching.forEach(p => p.left--);
+            pendingBuffs = pendingBuffs.filter(p => p.left > 0);
+
+            const copies = Math.min(activeEffects.filter(e => e.logic === 'copy').length, MAX_COPIES);
+            casts.push({
+                card,
+                effects: activeEffects.map(e => ({ ...e })),
+                buffs: reaching.reduce((stats, p) => addBuff(stats, p.card.buffConfig!), NO_BUFFS),
+                buffIds: reaching.map(p => p.card.id),
+                castCount: executionCount,
+                copySource: copies > 0 ? previousArtifact : null,
+                copies: previousArtifact ? copies : 0
+            });
+            // Persistent weapons keep their own instances, there is nothing to re-cast
+            if (!isPersistentWeapon(conf)) previousArtifact = card;
+        }
+
+        const isArtifact = card.type === CardType.ARTIFACT;
+        activeEffects.forEach(eff => {
+            if (eff.logic === 'double' || isArtifact) eff.count--;
+        });
+        activeEffects = activeEffects.filter(eff => eff.count > 0);
+        activeEffects.push(...newEffects);
+    }
+    return casts;
+};
+
+export const readCastFlags = (activeEffects: ActiveEffect[]): CastFlags => {
+    const flags: CastFlags = {
+        fan: false, ring: false, back: false, line: false, track: false,
+        wobble: false, reverse: false, ignore: false, giantCount: 0
+    };
+    activeEffects.forEach(m => {
+        if (m.logic === 'split_back') flags.back = true;
+        if (m.logic === 'fan') flags.fan = true;
+        if (m.logic === 'ring') flags.ring = true;
+        if (m.logic === 'line') flags.line = true;
+        if (m.logic === 'track') flags.track = true;
+        if (m.logic === 'wobble') flags.wobble = true;
+        if (m.logic === 'reverse') flags.reverse = true;
+        if (m.logic === 'ignore') flags.ignore = true;
+        if (m.logic === 'giant') flags.giantCount += 1; // Accumulate Giant
+    });
+    return flags;
+};
+
+// --- Cast Shapes ---
+
+// Jumps a lightning bolt makes, pierce buffs add one each
+export const lightningChains = (flags: CastFlags, buffs: BuffStats) =>
+    3 + (flags.fan ? 4 : 0) + (flags.ring ? 6 : 0) + (flags.back ? 2 : 0) + (flags.line ? 2 : 0) + buffs.pierce;
+
+export const orbitersPerCast = (flags: CastFlags) =>
+    flags.ring ? 6 : 1 + (flags.fan ? 2 : 0) + (flags.back ? 1 : 0);
+
+// Headings of the shots in one cast; fire areas always fan out
+export const spreadAngles = (baseAngle: number, conf: ArtifactConfig, flags: CastFlags): number[] => {
+    const isFan = flags.fan || (conf.element === ElementType.FIRE && conf.projectileType === 'area');
+
+    let projectileCount = 1;
+    if (isFan) projectileCount += 4;
+    if (flags.ring) projectileCount = 12;
+
+    const angles: number[] = [];
+    if (flags.ring) {
+        for (let i = 0; i < projectileCount; i++) angles.push(baseAngle + (Math.PI * 2 * i / projectileCount));
+    } else if (isFan) {
+        const spread = 0.8; // Radians
+        const start = baseAngle - spread / 2;
+        const step = spread / (projectileCount - 1);
+        for (let i = 0; i < projectileCount; i++) angles.push(start + step * i);
+    } else {
+        angles.push(baseAngle);
+    }
+
+    if (flags.back) {
+        const currentAngles = [...angles];
+        currentAngles.forEach(a => angles.push(a + Math.PI));
+    }
+    return angles;
+};
+
+export const previewCast = (cast: ArtifactCast): CastPreview => {
+    const conf = cast.card.artifactConfig!;
+    const flags = readCastFlags(cast.effects);
+    const persistent = isPersistentWeapon(conf);
+
+    let projectiles: number;
+    if (conf.projectileType === 'pull_screen') projectiles = 0;
+    else if (isLightning(conf)) projectiles = lightningChains(flags, cast.buffs);
+    else if (conf.projectileType === 'orbit') projectiles = Math.min(orbitersPerCast(flags) * cast.castCount, ORBIT_MAX);
+    else projectiles = spreadAngles(0, conf, flags).length * (flags.line ? 1 + LINE_EXTRA_SHOTS : 1);
+
+    return {
+        card: cast.card,
+        projectiles,
+        casts: persistent ? 1 : cast.castCount,
+        rangeMult: cast.buffs.rangeMult,
+        cooldown: persistent ? null : conf.cooldown / cast.buffs.freqMult,
+        echoOf: cast.copySource,
+        echoes: cast.copies
+    };
+};
+
+// Artifacts a card reaches in its row: itself for an artifact, the ones its
+// effects or buffs end up on for the others
+export const castsReachedBy = (cardId: string, casts: ArtifactCast[]): ArtifactCast[] =>
+    casts.filter(c => c.card.id === cardId || c.buffIds.includes(cardId) || c.effects.some(e => e.sourceId === cardId));
@@ -0,0 +1,121 @@
+
+import { ElementType } from './types';
+
+// --- Status Effects ---
+// Timed conditions on an entity. Each status has a duration, which a new application
+// refreshes, a stack limit and what it does while it lasts: damage over time, slowing,
+// holding the enemy in place, or making it take more damage. Statuses come from element
+// hits (ELEMENT_STATUS) and from reactions (see reactions.ts), which can also use them up.
+// Plain data on the entity, so it goes into saves as it is.
+
+export type StatusName = 'BURNING' | 'WET' | 'CHARGED_YELLOW' | 'CHARGED_BLUE' | 'SLOW' | 'FREEZE' | 'STUN' | 'VULNERABLE';
+
+export interface StatusDef {
+    name: string;          // Shown in the damage report for damage over time
+    duration: number;      // Ticks
+    maxStacks: number;
+    // Damage per tick per stack, before wave scaling, counted under `tag` in the damage report
+    dot?: { damage: number; element: ElementType; tag: string };
+    speedMult?: number;    // Movement, per stack
+    holds?: boolean;       // No moving, and bosses hold their attacks
+    damageTaken?: number;  // Extra share of hit damage taken, per stack
+    tint?: number;         // Renderer tint while it lasts
+    particles?: number;    // Colour of the odd particle while it lasts
+}
+
+export const STATUS_DEFS: Record<StatusName, StatusDef> = {
+    BURNING: { name: '燃烧', duration: 240, maxStacks: 3, dot: { damage: 0.1, element: ElementType.FIRE, tag: 'burn' }, tint: 0xff8866, particles: 0xff4500 },
+    WET: { name: '潮湿', duration: 300, maxStacks: 1, tint: 0x88ccff },
+    CHARGED_YELLOW: { name: '金电', duration: 20, maxStacks: 1 },
+    CHARGED_BLUE: { name: '蓝电', duration: 20, maxStacks: 1 },
+    SLOW: { name: '减速', duration: 120, maxStacks: 3, speedMult: 0.8, tint: 0xaabbff },
+    FREEZE: { name: '冰冻', duration: 90, maxStacks: 1, holds: true, tint: 0xccf4ff, particles: 0xe0ffff },
+    STUN: { name: '眩晕', duration: 45, maxStacks: 1, holds: true, tint: 0xffff99 },
+    VULNERABLE: { name: '易伤', duration: 240, maxStacks: 5, damageTaken: 0.1, tint: 0xd8b4fe }
+};
+
+export const STATUS_NAMES = Object.keys(STATUS_DEFS) as StatusName[];
+
+// Strongest look first: the renderer tints by the first status in this order
+const TINT_ORDER: StatusName[] = ['FREEZE', 'STUN', 'BURNING', 'VULNERABLE', 'SLOW', 'WET'];
+
+// The status a hit of each element leaves behind, unless a reaction blocks it
+export const ELEMENT_STATUS: Partial<Record<ElementType, StatusName>> = {
+    [ElementType.FIRE]: 'BURNING',
+    [ElementType.WATER]: 'WET',
+    [ElementType.LIGHTNING]: 'CHARGED_YELLOW',
+    [ElementType.LIGHTNING_BLUE]: 'CHARGED_BLUE',
+    [ElementType.WIND]: 'SLOW',
+    [ElementType.VOID]: 'VULNERABLE'
+};
+
+export interface StatusState {
+    ticks: number;     // Left
+    stacks: number;
+    sourceId?: string; // Card that applied it last, damage over time counts for it
+}
+
+export type StatusMap = Partial<Record<StatusName, StatusState>>;
+
+// Per status, 0 takes it in full, 1 is immune; in between shortens it
+export type StatusResistance = Partial<Record<StatusName, number>>;
+
+export const isStatusName = (v: unknown): v is StatusName =>
+    typeof v === 'string' && Object.prototype.hasOwnProperty.call(STATUS_DEFS, v);
+
+export const hasStatus = (statuses: StatusMap, status: StatusName) => statuses[status] !== undefined;
+
+// Adds a stack and refreshes the duration. Returns false when resisted outright.
+export const applyStatus = (statuses: StatusMap, status: StatusName, resist: StatusResistance = {}, sourceId?: string): boolean => {
+    const def = STATUS_DEFS[status];
+    const ticks = def.duration * (1 - Math.min(1, resist[status] ?? 0));
+    if (ticks <= 0) return false;
+
+    const state = statuses[status];
+    if (state) {
+        state.stacks = Math.min(state.stacks + 1, def.maxStacks);
+        state.ticks = Math.max(state.ticks, ticks);
+        if (sourceId) state.sourceId = sourceId;
+    } else {
+        statuses[status] = { ticks, stacks: 1, sourceId };
+    }
+    return true;
+};
+
+export const clearStatus = (statuses: StatusMap, status: StatusName) => {
+    delete statuses[status];
+};
+
+// Runs the clock down, dropping what has worn off
+export const expireStatuses = (statuses: StatusMap, delta: number) => {
+    STATUS_NAMES.forEach(name => {
+        const state = statuses[name];
+        if (!state) return;
+        state.ticks -= delta;
+        if (state.ticks <= 0) delete statuses[name];
+    });
+};
+
+export const isHeld = (statuses: StatusMap) =>
+    STATUS_NAMES.some(name => statuses[name] && STATUS_DEFS[name].holds);
+
+export const speedFactor = (statuses: StatusMap) => {
+    if (isHeld(statuses)) return 0;
+    return STATUS_NAMES.reduce((f, name) => {
+        const mult = STATUS_DEFS[name].speedMult;
+        const state = statuses[name];
+        return mult !== undefined && state ? f * Math.pow(mult, state.stacks) : f;
+    }, 1);
+};
+
+export const damageTakenMult = (statuses: StatusMap) =>
+    STATUS_NAMES.reduce((m, name) => m + (STATUS_DEFS[name].damageTaken ?? 0) * (statuses[name]?.stacks ?? 0), 1);
+
+export const statusTint = (statuses: StatusMap): number | undefined => {
+    const shown = TINT_ORDER.find(name => statuses[name]);
+    return shown ? STATUS_DEFS[shown].tint : undefined;
+};
+
+// Report name for damage over time counted under `tag`
+export const dotName = (tag: string) =>
+    STATUS_NAMES.map(name => STATUS_DEFS[name]).find(def => def.dot?.tag === tag)?.name;
@@ -0,0 +1,90 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ElementType, MapType } from '../types';
+import { Entity, Simulation } from '../simulation';
+import { AFFIX_DEFS, AffixId, ELITE_HP, ELITE_SCALE, MAX_AFFIXES, WAVES_PER_AFFIX } from '../affixes';
+
+const setup = (wave: number) => {
+    const sim = new Simulation();
+    sim.start(MapType.FIXED, 1);
+    sim.wave = wave;
+    return sim;
+};
+
+// A slime next to the player given exactly these affixes, a plain one without any
+const elite = (sim: Simulation, affixes: AffixId[]): Entity => {
+    const e = sim.createWaveEnemy('slime', sim.player.x + 200, sim.player.y);
+    if (affixes.length > 0) e.affixes = affixes;
+    sim.enemies.push(e);
+    return e;
+};
+
+test('elites get more affixes as waves go by, never one twice', () => {
+    for (const wave of [1, WAVES_PER_AFFIX, WAVES_PER_AFFIX * 2, 99]) {
+        const sim = setup(wave);
+        const plain = sim.createWaveEnemy('slime', 0, 0);
+        const e = sim.createWaveEnemy('slime', 0, 0);
+        sim.makeElite(e);
+        const count = Math.min(MAX_AFFIXES, 1 + Math.floor(wave / WAVES_PER_AFFIX));
+        assert.equal(e.affixes!.length, count);
+        assert.equal(new Set(e.affixes).size, count);
+        assert.ok(e.maxHp >= plain.maxHp * ELITE_HP);
+        assert.equal(e.radius, plain.radius * ELITE_SCALE);
+    }
+});
+
+test('affixes stack: armor and a ward on one elite', () => {
+    const sim = setup(10);
+    const e = elite(sim, ['armored', 'warded']);
+    e.immuneElement = ElementType.FIRE;
+    assert.equal(sim.damageTaken(e, ElementType.FIRE), 0);
+    assert.equal(sim.damageTaken(e, ElementType.WATER), AFFIX_DEFS.armored.damageTaken);
+});
+
+test('hasted elites move faster, regenerating ones heal', () => {
+    const sim = setup(10);
+    const plain = elite(sim, []);
+    const fast = elite(sim, ['hasted']);
+    fast.y = plain.y = sim.player.y + 300;
+    const healing = elite(sim, ['regenerating']);
+    healing.hp = healing.maxHp / 2;
+    const [px, fx] = [plain.x, fast.x];
+    sim.updateEnemies(1);
+    assert.ok(Math.abs(fast.x - fx) > Math.abs(plain.x - px));
+    assert.ok(healing.hp > healing.maxHp / 2);
+});
+
+test('vampiric elites heal on a hit', () => {
+    const sim = setup(10);
+    const e = elite(sim, ['vampiric']);
+    e.x = sim.player.x;
+    e.y = sim.player.y;
+    e.hp = 1;
+    sim.indexEnemies();
+    sim.handleCollisions(1);
+    assert.ok(e.hp > 1);
+    assert.ok(sim.player.hp < sim.player.maxHp);
+});
+
+test('elites split, explode and drop more when they die', () => {
+    const sim = setup(10);
+    const e = elite(sim, ['splitting', 'explosive']);
+    sim.killEnemy(e);
+    assert.equal(sim.enemies.filter(o => !o.isDead && !o.affixes).length, AFFIX_DEFS.splitting.split);
+    const blast = AFFIX_DEFS.explosive.explode!;
+    assert.deepEqual(sim.hazards.map(h => [h.kind, h.radius, h.damage]), [['slam', blast.radius, blast.damage + 10 * blast.perWave]]);
+    assert.equal(sim.xpOrbs.length, 3);
+
+    sim.killEnemy(elite(sim, []));
+    assert.equal(sim.xpOrbs.length, 4);
+});
+
+test('no elites before the default script lets them in', () => {
+    const sim = new Simulation();
+    sim.start(MapType.FIXED, 2);
+    sim.player.hp = sim.player.maxHp = 1e9;
+    for (let i = 0; i < 3000; i++) sim.step();
+    assert.ok(sim.wave < 5);
+    assert.ok(sim.enemies.length > 0 && sim.enemies.every(e => !e.affixes));
+});
@@ -0,0 +1,51 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, MapType } from '../types';
+import { RngService } from '../rng';
+import { captureRun, parseSave, serializeSave } from '../save';
+import { circleBot } from './helpers';
+
+// Pixi looks for a browser when it loads; the engine is never initialised here, so nothing draws
+(globalThis as any).navigator ??= { userAgent: 'node' };
+const { GameEngine } = await import('../engine');
+const { DEFAULT_POOL_CONFIG } = await import('../renderer');
+
+const canvas = {} as HTMLCanvasElement;
+
+// Plays until the first level-up screen
+const engineAtLevelUp = () => {
+    const engine = new GameEngine(canvas);
+    engine.start(MapType.FIXED, 3);
+    for (let tick = 0; tick < 20000 && engine.sim.state !== GameState.LEVEL_UP; tick++) {
+        circleBot(engine.sim, tick).forEach(input => engine.sim.applyInput(input));
+        engine.sim.step();
+    }
+    assert.equal(engine.sim.state, GameState.LEVEL_UP);
+    return engine;
+};
+
+test('a run saved on the level-up screen resumes with its offers', () => {
+    const saved = engineAtLevelUp();
+    const save = parseSave(serializeSave(captureRun(saved.sim)));
+    assert.equal(save.run.state, GameState.LEVEL_UP);
+
+    const engine = new GameEngine(canvas);
+    const offers: string[][] = [];
+    const states: GameState[] = [];
+    engine.events.on('levelUp', ({ options }) => offers.push(options.map(c => c.name)));
+    engine.events.on('stateChanged', ({ state }) => states.push(state));
+    engine.resumeRun(save);
+
+    assert.deepEqual(offers, [saved.sim.levelUpOptions.map(c => c.name)]);
+    assert.deepEqual(states, [GameState.LEVEL_UP]);
+
+    engine.pickLevelUpCard(engine.sim.levelUpOptions[0]);
+    assert.equal(engine.sim.state, GameState.PLAYING);
+});
+
+test('renderer pool sizes can be set through the engine', () => {
+    const engine = new GameEngine(canvas, new RngService(1), { particles: 10, maxFloatingTexts: 5 });
+    assert.deepEqual(engine.renderer.poolConfig, { ...DEFAULT_POOL_CONFIG, particles: 10, maxFloatingTexts: 5 });
+    assert.deepEqual(new GameEngine(canvas).renderer.poolConfig, DEFAULT_POOL_CONFIG);
+});
@@ -0,0 +1,54 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MapType, SpellLayout } from '../types';
+import { ALL_EVOLUTIONS, findCardTemplate, instantiateCard, registerCardPack } from '../constants';
+import { evolutionProgress, offerableEvolutions } from '../evolutions';
+import { CardPackError } from '../cardPacks';
+import { Simulation } from '../simulation';
+
+const recipe = ALL_EVOLUTIONS.find(r => r.id === 'evo_qiankun')!;
+const card = (id: string, level = 1) => instantiateCard(findCardTemplate(id)!, id, level);
+
+// The recipe's artifact and partner, rows per card id, committed like a SpellBoard edit
+const arrange = (artifactLevel: number, rows: { [id: string]: number }) => {
+    const sim = new Simulation();
+    sim.start(MapType.FIXED, 1);
+    sim.stats.inventory = [card(recipe.artifact, artifactLevel), card(recipe.with)];
+    const layout: SpellLayout = { layoutMap: rows, rowCount: 4 };
+    sim.applyInput({ kind: 'reorder', order: sim.stats.inventory.map(c => c.id), layout });
+    return sim;
+};
+
+test('an artifact evolves once its level and partner share a row', () => {
+    const sim = arrange(recipe.level, { [recipe.artifact]: 1, [recipe.with]: 1 });
+    assert.deepEqual(sim.stats.inventory.map(c => [c.id, c.templateId]), [[recipe.artifact, recipe.into]], 'keeps its id, the partner is used up');
+    assert.equal(evolutionProgress(recipe, sim.stats.inventory, sim.spellLayout), 'evolved');
+});
+
+test('apart or under-levelled, nothing evolves', () => {
+    const apart = arrange(recipe.level, { [recipe.artifact]: 0, [recipe.with]: 1 });
+    assert.equal(evolutionProgress(recipe, apart.stats.inventory, apart.spellLayout), 'eligible');
+    assert.deepEqual(offerableEvolutions(ALL_EVOLUTIONS, apart.stats.inventory), [recipe]);
+
+    const low = arrange(recipe.level - 1, { [recipe.artifact]: 1, [recipe.with]: 1 });
+    assert.equal(evolutionProgress(recipe, low.stats.inventory, low.spellLayout), 'locked');
+    assert.deepEqual(offerableEvolutions(ALL_EVOLUTIONS, low.stats.inventory), []);
+});
+
+test('picking the offered evolved card evolves on the spot', () => {
+    const sim = arrange(recipe.level, { [recipe.artifact]: 0, [recipe.with]: 1 });
+    sim.applyInput({ kind: 'addCard', card: card(recipe.into) });
+    assert.deepEqual(sim.stats.inventory.map(c => c.templateId), [recipe.into]);
+});
+
+test('packs with broken recipes or clashing evolved names are refused', () => {
+    const evolved = { id: 'art_test_evo', name: '测试', description: '测试', type: 'ARTIFACT', rarity: 'gold', evolved: true,
+        artifactConfig: { cooldown: 10, baseDamage: 1, element: 'FIRE', projectileType: 'projectile', color: '#ffffff' } };
+    assert.throws(() => registerCardPack({ cards: [evolved], evolutions: [{ id: 'evo_test', artifact: 'art_nope', with: 'art_void', level: 2, into: 'art_test_evo' }] }, 'test'),
+        (e: CardPackError) => e.problems.some(p => p.includes('"artifact" must be a regular ARTIFACT card')));
+    const name = findCardTemplate('eff_reverse_p')!.name;
+    assert.throws(() => registerCardPack({ cards: [{ ...evolved, name }] }, 'test'),
+        (e: CardPackError) => e.problems.some(p => p.includes('evolved cards need a name of their own')));
+    assert.equal(findCardTemplate('art_test_evo'), undefined);
+});
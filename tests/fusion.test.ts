@@ -0,0 +1,50 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MapType } from '../types';
+import { findCardTemplate, instantiateCard } from '../constants';
+import { FUSION_COPIES, MAX_CARD_LEVEL, cardLevel, findFusions, isFusion } from '../fusion';
+import { Simulation } from '../simulation';
+
+const copies = (id: string, level = 1) =>
+    Array.from({ length: FUSION_COPIES }, (_, i) => instantiateCard(findCardTemplate(id)!, `${id}#${i}`, level));
+
+const runWith = (ids: string[]) => {
+    const sim = new Simulation();
+    sim.start(MapType.FIXED, 1);
+    ids.forEach((id, i) => sim.applyInput({ kind: 'addCard', card: instantiateCard(findCardTemplate(id)!, `${id}#${i}`) }));
+    return sim;
+};
+
+test('three copies of the same name and level fuse', () => {
+    assert.ok(isFusion(copies('eff_copy_g')));
+    assert.ok(!isFusion(copies('eff_copy_g').slice(0, 2)));
+    assert.ok(!isFusion([...copies('eff_copy_g').slice(0, 2), copies('eff_copy_g', 2)[0]]));
+    assert.deepEqual(findFusions([...copies('eff_copy_g'), ...copies('buff_pierce_s').slice(0, 2)]).map(set => set.length), [FUSION_COPIES]);
+});
+
+test('a fusion becomes the fusesInto card, otherwise the card a level up', () => {
+    const sim = runWith(['eff_reverse_s', 'eff_reverse_s', 'eff_reverse_s', 'eff_copy_g', 'eff_copy_g', 'eff_copy_g']);
+    const [reverse, copy] = findFusions(sim.stats.inventory);
+    sim.applyInput({ kind: 'fuse', cardIds: reverse.map(c => c.id) });
+    sim.applyInput({ kind: 'fuse', cardIds: copy.map(c => c.id) });
+
+    const inventory = sim.stats.inventory;
+    assert.equal(inventory.filter(c => c.templateId === 'eff_reverse_p').length, 1);
+    assert.equal(inventory.filter(c => c.templateId === 'eff_reverse_s').length, 0);
+    const fused = inventory.find(c => c.templateId === 'eff_copy_g')!;
+    assert.equal(cardLevel(fused), 2);
+    assert.equal(fused.id, copy[0].id, 'the fused card keeps the first copy\'s place');
+    assert.equal(fused.effectConfig!.influenceCount, findCardTemplate('eff_copy_g')!.effectConfig!.influenceCount + 1);
+});
+
+test('cards at the top level no longer fuse', () => {
+    assert.ok(!isFusion(copies('eff_copy_g', MAX_CARD_LEVEL)));
+});
+
+test('picking an owned artifact levels it up', () => {
+    const sim = runWith(['art_void', 'art_void']);
+    const voids = sim.stats.inventory.filter(c => c.templateId === 'art_void');
+    assert.equal(voids.length, 1);
+    assert.equal(cardLevel(voids[0]), 2);
+});
@@ -0,0 +1,58 @@
+
+import { GameState, MapType } from '../types';
+import { ReplayInput, ReplayPlayer, ReplayRecorder } from '../replay';
+import { Simulation } from '../simulation';
+import { DEFAULT_WAVE_SCRIPT, findWaveScript, waveScriptHash } from '../waves';
+
+// --- Test Helpers ---
+// Headless runs driven the way the engine drives them: inputs are recorded, then applied
+// before the tick they belong to.
+
+// Steers in a slow circle and takes the first card offered, so runs level up and fight
+export const circleBot = (sim: Simulation, tick: number): ReplayInput[] => {
+    if (sim.state === GameState.LEVEL_UP) return [{ kind: 'pickCard', card: sim.levelUpOptions[0] }];
+    if (tick % 30 !== 0) return [];
+    const angle = tick / 300;
+    return [{ kind: 'joystick', x: Math.cos(angle), y: Math.sin(angle) }];
+};
+
+export const recordRun = (seed: number, ticks: number, mapType = MapType.FIXED, waveScriptId = DEFAULT_WAVE_SCRIPT) => {
+    const sim = new Simulation();
+    const recorder = new ReplayRecorder(seed, mapType, waveScriptId, waveScriptHash(findWaveScript(waveScriptId)));
+    sim.start(mapType, seed, waveScriptId);
+    for (let tick = 0; tick < ticks; tick++) {
+        circleBot(sim, tick).forEach(input => {
+            recorder.record(input);
+            sim.applyInput(input);
+        });
+        recorder.recordTick();
+        sim.step();
+    }
+    return { sim, replay: recorder.finish() };
+};
+
+export const playReplay = (player: ReplayPlayer) => {
+    const { seed, mapType, waveScriptId } = player.file;
+    const sim = new Simulation();
+    sim.start(mapType, seed, waveScriptId);
+    for (let tick = 0; tick < player.tickCount; tick++) {
+        player.takeInputs(tick).forEach(input => sim.applyInput(input));
+        sim.step();
+    }
+    return sim;
+};
+
+// What two runs must agree on to count as the same run
+export const fingerprint = (sim: Simulation) => ({
+    state: sim.state,
+    gameTime: sim.gameTime,
+    wave: sim.wave,
+    kills: sim.kills,
+    level: sim.stats.level,
+    hp: sim.player.hp,
+    x: sim.player.x,
+    y: sim.player.y,
+    enemies: sim.enemies.map(e => `${e.id}:${e.enemyType}:${e.x.toFixed(3)},${e.y.toFixed(3)}:${e.hp.toFixed(3)}`),
+    cards: sim.stats.inventory.map(c => c.name),
+    rng: [sim.rng.gameplay.state, sim.rng.cosmetic.state]
+});
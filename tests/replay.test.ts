@@ -0,0 +1,34 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MapType } from '../types';
+import { ENGINE_VERSION } from '../constants';
+import { ReplayPlayer, parseReplay, serializeReplay } from '../replay';
+import { fingerprint, playReplay, recordRun } from './helpers';
+
+const TICKS = 7200; // Two minutes, long enough for level-ups and a few waves
+
+test('the same seed and inputs play out the same run', () => {
+    assert.deepEqual(fingerprint(recordRun(42, TICKS).sim), fingerprint(recordRun(42, TICKS).sim));
+    assert.notDeepEqual(fingerprint(recordRun(42, TICKS).sim), fingerprint(recordRun(43, TICKS).sim));
+});
+
+test('a replay re-simulates the recorded run, through a file round trip', () => {
+    for (const mapType of [MapType.FIXED, MapType.INFINITE]) {
+        const { sim, replay } = recordRun(3, TICKS, mapType);
+        assert.ok(replay.events.some(e => e.input.kind === 'pickCard'), 'the run should have levelled up');
+        const played = playReplay(new ReplayPlayer(parseReplay(serializeReplay(replay))));
+        assert.deepEqual(fingerprint(played), fingerprint(sim));
+    }
+});
+
+test('replays from another engine version are refused', () => {
+    const { replay } = recordRun(1, 10);
+    assert.throws(() => parseReplay(serializeReplay({ ...replay, engineVersion: '0.0.1' })), /recorded on engine 0\.0\.1/);
+    assert.equal(parseReplay(serializeReplay(replay)).engineVersion, ENGINE_VERSION);
+});
+
+test('replays are refused when not a replay', () => {
+    assert.throws(() => parseReplay('{'), /not valid JSON/);
+    assert.throws(() => parseReplay('{}'), /Not a replay file/);
+});
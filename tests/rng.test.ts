@@ -0,0 +1,43 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Random, RngService, hashSeed } from '../rng';
+
+const draws = (r: Random, n: number) => Array.from({ length: n }, () => r.next());
+
+test('a seed always gives the same rolls', () => {
+    assert.deepEqual(draws(new RngService(42).gameplay, 100), draws(new RngService(42).gameplay, 100));
+    assert.notDeepEqual(draws(new RngService(42).gameplay, 10), draws(new RngService(43).gameplay, 10));
+});
+
+test('the gameplay stream does not depend on cosmetic draws', () => {
+    const quiet = new RngService(7);
+    const busy = new RngService(7);
+    draws(busy.cosmetic, 500);
+    assert.deepEqual(draws(quiet.gameplay, 50), draws(busy.gameplay, 50));
+});
+
+test('a stream picks up from a saved state', () => {
+    const rng = new RngService(9);
+    draws(rng.gameplay, 33);
+    const copy = new Random(0);
+    copy.state = rng.gameplay.state;
+    assert.deepEqual(draws(copy, 20), draws(rng.gameplay, 20));
+});
+
+test('rolls stay in range', () => {
+    const r = new Random(hashSeed(1, 2, 3));
+    for (let i = 0; i < 1000; i++) {
+        const f = r.next();
+        assert.ok(f >= 0 && f < 1);
+        const n = r.int(6);
+        assert.ok(Number.isInteger(n) && n >= 0 && n < 6);
+    }
+});
+
+test('derived streams depend on their keys only', () => {
+    const rng = new RngService(5);
+    draws(rng.gameplay, 10);
+    assert.deepEqual(draws(rng.derive(3, 4), 5), draws(new RngService(5).derive(3, 4), 5));
+    assert.notDeepEqual(draws(rng.derive(3, 4), 5), draws(rng.derive(4, 3), 5));
+});
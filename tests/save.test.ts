@@ -0,0 +1,66 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, MapType } from '../types';
+import { CHUNK_SIZE, Simulation } from '../simulation';
+import { SAVE_VERSION, captureRun, parseSave, restoreRun, serializeSave } from '../save';
+import { DEFAULT_WAVE_SCRIPT } from '../waves';
+import { fingerprint, recordRun } from './helpers';
+
+const savedRun = () => captureRun(recordRun(3, 3600, MapType.INFINITE).sim);
+
+test('a save restores the run it was taken from', () => {
+    const { sim } = recordRun(3, 3600);
+    const restored = new Simulation();
+    const state = restoreRun(restored, parseSave(serializeSave(captureRun(sim))));
+    assert.equal(state, GameState.PAUSED);
+    assert.deepEqual(fingerprint(restored), { ...fingerprint(sim), state: restored.state });
+    assert.equal(restored.waveScriptId, sim.waveScriptId);
+});
+
+test('saves from v1 migrate all the way up', () => {
+    const current = savedRun();
+    const { waveScriptId, waveScriptHash, ...v1 }: any = structuredClone(current);
+    v1.version = 1;
+    v1.run.obstacles.forEach((o: any) => delete o.chunk);
+    v1.run.damageByCard = { starter: 123 };
+    delete v1.run.damage;
+    v1.run.enemies.forEach((e: any, i: number) => {
+        delete e.statuses;
+        Object.assign(e, { isBurning: i === 0, burnTimer: 10, burnSourceId: 'starter', isWet: i === 0, wetTimer: 5, isElectrified: false, hitByLightningYellow: i === 0 ? 30 : 0, hitByLightningBlue: 0 });
+    });
+    assert.ok(v1.run.enemies.length > 0 && v1.run.obstacles.length > 0, 'the run should have enemies and obstacles');
+
+    const save = parseSave(JSON.stringify(v1));
+    assert.equal(save.version, SAVE_VERSION);
+    assert.equal(save.waveScriptId, DEFAULT_WAVE_SCRIPT);
+    assert.equal(save.waveScriptHash, undefined);
+    save.run.obstacles.forEach(o => assert.equal(o.chunk, `${Math.floor(o.x / CHUNK_SIZE)},${Math.floor(o.y / CHUNK_SIZE)}`));
+    assert.equal(save.run.damage.byCard.starter.total, 123);
+    const [first, second] = save.run.enemies as any[];
+    assert.deepEqual(Object.keys(first.statuses).sort(), ['BURNING', 'CHARGED_YELLOW', 'WET']);
+    assert.equal(first.statuses.BURNING.sourceId, 'starter');
+    assert.equal(first.isBurning, undefined);
+    if (second) assert.deepEqual(second.statuses, {});
+
+    const sim = new Simulation();
+    restoreRun(sim, save);
+    sim.setState(GameState.PLAYING);
+    for (let i = 0; i < 120; i++) sim.step();
+    assert.ok(sim.gameTime > current.run.gameTime);
+});
+
+test('reaction names in v3 damage reports become table ids', () => {
+    const v3: any = structuredClone(savedRun());
+    delete v3.waveScriptId;
+    delete v3.waveScriptHash;
+    v3.version = 3;
+    v3.run.enemies.forEach((e: any) => delete e.statuses);
+    v3.run.damage.byCard.starter.byReaction = { WILDFIRE: 10 };
+    assert.deepEqual(parseSave(JSON.stringify(v3)).run.damage.byCard.starter.byReaction, { wildfire: 10 });
+});
+
+test('unreadable and future saves are refused', () => {
+    assert.throws(() => parseSave('{'), /not valid JSON/);
+    assert.throws(() => parseSave(JSON.stringify({ ...savedRun(), version: SAVE_VERSION + 1 })), /newer than this build/);
+});
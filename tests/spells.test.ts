@@ -0,0 +1,43 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MapType } from '../types';
+import { findCardTemplate, instantiateCard } from '../constants';
+import { Simulation } from '../simulation';
+
+const card = (id: string) => instantiateCard(findCardTemplate(id)!, id);
+
+// Casts one SpellBoard row for `ticks` and counts the shots each artifact put out
+const castRow = (ids: string[], ticks: number) => {
+    const sim = new Simulation();
+    sim.start(MapType.FIXED, 1);
+    sim.stats.inventory = ids.map(card);
+    const shots: { [cardId: string]: Set<number> } = {};
+    for (let t = 0; t < ticks; t++) {
+        sim.handleWeapons(1);
+        for (let i = sim.delayedActions.length - 1; i >= 0; i--) {
+            sim.delayedActions[i].timer -= 1;
+            if (sim.delayedActions[i].timer <= 0) sim.delayedActions.splice(i, 1)[0].action();
+        }
+        sim.bullets.forEach(b => (shots[b.ownerId] ??= new Set()).add(b.id));
+    }
+    return { sim, shots: (id: string) => shots[id]?.size ?? 0 };
+};
+
+test("'copy' next to an orbit weapon echoes the artifact before it", () => {
+    const ticks = 600;
+    const plain = castRow(['art_void', 'art_orbit'], ticks);
+    const copied = castRow(['art_void', 'eff_copy_g', 'art_orbit'], ticks);
+    const orbitCooldown = findCardTemplate('art_orbit')!.artifactConfig!.cooldown;
+    // One echo of the void shot per orbit cycle on top of its own casts
+    assert.equal(copied.shots('art_void') - plain.shots('art_void'), Math.floor(ticks / orbitCooldown));
+    assert.ok(copied.shots('art_orbit') > 0);
+});
+
+test('persistent weapons keep their cooldown within one cycle', () => {
+    for (const id of ['art_orbit', 'art_track']) {
+        const { sim } = castRow([id], 1000);
+        const cooldown = sim.weaponCooldowns[id];
+        assert.ok(cooldown > -1 && cooldown <= findCardTemplate(id)!.artifactConfig!.cooldown, `${id}: ${cooldown}`);
+    }
+});
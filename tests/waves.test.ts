@@ -0,0 +1,61 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, MapType } from '../types';
+import { Simulation } from '../simulation';
+import { captureRun, parseSave, serializeSave } from '../save';
+import { parseReplay, serializeReplay } from '../replay';
+import { DEFAULT_WAVE_SCRIPT, WaveScriptError, findWaveScript, parseWaveScript, registerWaveScript, resolveWave, waveScriptHash } from '../waves';
+import { recordRun } from './helpers';
+
+const mini = (count: number) => ({ id: 'mini', name: '测试', victoryWave: 2, waves: [{ from: 1, count, spawnRate: 1, maxAlive: 50, pattern: 'ring', groupSize: count }] });
+
+test('the default script paces waves like the classic climb', () => {
+    const script = findWaveScript(DEFAULT_WAVE_SCRIPT);
+    assert.equal(resolveWave(script, 1).count, 20);
+    assert.equal(resolveWave(script, 7).count, Math.floor(20 + 5 * Math.pow(7, 1.2)));
+    assert.equal(resolveWave(script, 7).spawnRate, 0.05 + 0.005 * 7);
+    assert.equal(resolveWave(script, 7).maxAlive, 87);
+    assert.equal(resolveWave(script, 10).boss, 'bull');
+    assert.equal(resolveWave(script, 11).boss, undefined);
+    assert.equal(resolveWave(script, 4).eliteChance, 0);
+    assert.ok(resolveWave(script, 50).eliteChance > resolveWave(script, 5).eliteChance);
+    assert.equal(script.victoryWave, 100);
+});
+
+test('broken scripts list every problem', () => {
+    assert.throws(() => parseWaveScript({ id: 'x', name: 'x', victoryWave: 0, waves: [{ from: 2, boss: 'nobody', mix: [{ type: 'dragon', chance: 2 }] }] }, 'x.json'),
+        (e: WaveScriptError) => e.problems.length === 4 && e.problems.some(p => p.includes('unknown boss "nobody"')));
+});
+
+test('the script decides when a run is won', () => {
+    registerWaveScript({ ...mini(3), victoryWave: 1 }, 'test');
+    const sim = new Simulation();
+    sim.start(MapType.FIXED, 1, 'mini');
+    for (let i = 0; i < 20000 && sim.state === GameState.PLAYING; i++) {
+        sim.enemies.forEach(e => sim.killEnemy(e));
+        sim.step();
+    }
+    assert.equal(sim.state, GameState.VICTORY);
+    assert.equal(sim.wave, 1);
+});
+
+test('saves and replays are refused once their script changed or is gone', () => {
+    registerWaveScript(mini(3), 'test');
+    const before = waveScriptHash(findWaveScript('mini'));
+    const { sim, replay } = recordRun(1, 60, MapType.FIXED, 'mini');
+    const save = serializeSave(captureRun(sim));
+    const file = serializeReplay(replay);
+
+    registerWaveScript(mini(3), 'test');
+    assert.equal(waveScriptHash(findWaveScript('mini')), before, 'the same content hashes the same');
+    assert.equal(parseSave(save).waveScriptId, 'mini');
+    assert.equal(parseReplay(file).waveScriptId, 'mini');
+
+    registerWaveScript(mini(4), 'test');
+    assert.throws(() => parseSave(save), /has changed since the run was saved/);
+    assert.throws(() => parseReplay(file), /has changed since this replay was recorded/);
+
+    assert.throws(() => parseReplay(serializeReplay({ ...replay, waveScriptId: 'gone' })), /"gone", which is not loaded/);
+    assert.throws(() => parseSave(serializeSave({ ...captureRun(sim), waveScriptId: 'gone' })), /"gone", which is not loaded/);
+});
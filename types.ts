@@ -1,3 +1,5 @@
+import { StatusName } from './statuses';
+
 
 export enum GameState {
   MENU,
@@ -39,6 +41,10 @@ export enum ElementType {
 
 export interface CardDef {
   id: string;
+  templateId?: string; // Catalogue card this instance was copied from (saves resolve cards by it)
+  level?: number;      // Instance level from fusion / duplicate artifacts, 1 when unset (see fusion.ts)
+  fusesInto?: string;  // Catalogue card that FUSION_COPIES of this one fuse into
+  evolved?: boolean;   // Only comes from an evolution recipe (see evolutions.ts), never offered by itself
   name: string;
   description: string;
   type: CardType;
@@ -56,11 +62,19 @@ export interface CardDef {
     element: ElementType;
     projectileType: 'projectile' | 'beam' | 'area' | 'orbit' | 'lightning' | 'stream' | 'minion' | 'water_snake' | 'pull_screen';
     color: number;
+    inflicts?: StatusName[]; // Put on every enemy it hits before the hit lands, so the hit reacts with them
+    splash?: { radius: number; share: number }; // Hits also deal `share` of their damage around the target
+    aura?: number;           // Halo drawn around its shots
   };
   buffConfig?: {
     range?: number;
-    speed?: number;
+    speed?: number;     // Projectile velocity; flight time shrinks to match, so reach stays the same
     frequency?: number; // Inverse cooldown
+    duration?: number;  // How long shots, blasts and beams last
+    damage?: number;
+    pierce?: number;    // Extra enemies a shot passes through (lightning: extra jumps)
+    element?: ElementType; // Only artifacts of this element are reached
+    scope?: number | 'group'; // Artifacts after it that it reaches (default 1), or the whole row
   };
   effectConfig?: {
     logic: 'split_back' | 'reverse' | 'double' | 'ignore' | 'ring' | 'fan' | 'line' | 'track' | 'copy' | 'wobble' | 'giant';
@@ -80,6 +94,13 @@ export interface PlayerStats {
   inventory: CardDef[];
 }
 
+// SpellBoard arrangement. Each row is a spell group of its own: effects, buffs and
+// multicast only reach artifacts in the same row.
+export interface SpellLayout {
+  layoutMap: { [cardId: string]: number }; // Row per card, cards not placed yet sit in row 0
+  rowCount: number;
+}
+
 export interface EnemyDef {
   hp: number;
   damage: number;
@@ -0,0 +1,254 @@
+
+import { EnemyType } from './simulation';
+import { BOSS_DEFS } from './bosses';
+import baseScript from './waves/base.json';
+
+// --- Wave Scripts ---
+// How a run is paced, as data: JSON files in waves/ each hold one script, checked here like
+// card packs and registered by id, so a file with an existing id replaces that script.
+// A script is a list of rules; every rule that covers a wave applies to it in order, later
+// rules overriding the fields they set (events add up instead). The built-in "default"
+// script (base.json) is the classic endless climb to wave 100.
+
+export type WaveEnemyType = Exclude<EnemyType, 'boss'>;
+
+// A Record, so adding an enemy type without listing it here fails to compile
+const ENEMY_TYPES: Record<WaveEnemyType, true> = { slime: true, bat: true, skull: true, eye: true };
+const PATTERNS: Record<SpawnPattern, true> = { scatter: true, cluster: true, ring: true };
+
+// A fixed number, or base + perWave * wave^power
+export type Curve = number | { base: number; perWave?: number; power?: number };
+
+// scatter: one enemy at a time around the edge; cluster: groupSize together at one spot;
+// ring: groupSize spread around the player
+export type SpawnPattern = 'scatter' | 'cluster' | 'ring';
+
+// Spawns start out as slimes; each layer in turn then turns them into its type at its chance
+export interface MixLayer {
+    type: WaveEnemyType;
+    chance: number;
+}
+
+// Something that happens `at` ticks into the wave
+export interface WaveEvent {
+    at: number;
+    message?: string; // Banner text
+    swarm?: { type: WaveEnemyType; count: number; pattern: SpawnPattern }; // Extra enemies, on top of the count
+}
+
+export interface WaveRule {
+    from: number;
+    to?: number;        // Last wave it covers, open-ended when missing
+    every?: number;     // Only every n-th wave from `from` on
+    count?: Curve;      // Enemies in the wave, the boss included
+    spawnRate?: Curve;  // Chance per tick that a spawn happens
+    maxAlive?: Curve;   // No spawns while this many are alive
+    mix?: MixLayer[];
+    pattern?: SpawnPattern;
+    groupSize?: number; // For cluster and ring
+    eliteChance?: Curve; // Chance a spawn is an elite (see affixes.ts), capped at 1
+    boss?: string;      // Boss id (see bosses.ts), spawned as the wave starts
+    breather?: number;  // Ticks from clearing the wave to the next one
+    events?: WaveEvent[];
+}
+
+export interface WaveScript {
+    id: string;
+    name: string;
+    victoryWave: number; // Beating this wave (or its boss) wins the run
+    waves: WaveRule[];
+}
+
+// One wave with every rule applied and the curves worked out
+export interface WaveSpec {
+    count: number;
+    spawnRate: number;
+    maxAlive: number;
+    mix: MixLayer[];
+    pattern: SpawnPattern;
+    groupSize: number;
+    eliteChance: number;
+    boss?: string;
+    breather: number;
+    events: WaveEvent[];
+}
+
+const SCRIPT_FIELDS = ['id', 'name', 'victoryWave', 'waves'];
+const RULE_FIELDS = ['from', 'to', 'every', 'count', 'spawnRate', 'maxAlive', 'mix', 'pattern', 'groupSize', 'eliteChance', 'boss', 'breather', 'events'];
+const EVENT_FIELDS = ['at', 'message', 'swarm'];
+
+export class WaveScriptError extends Error {
+    readonly problems: string[];
+
+    constructor(source: string, problems: string[]) {
+        super(`Wave script ${source} is invalid:\n  ${problems.join('\n  ')}`);
+        this.name = 'WaveScriptError';
+        this.problems = problems;
+    }
+}
+
+const oneOf = (values: string[]) => values.map(v => `"${v}"`).join(', ');
+const has = (o: object, key: unknown) => typeof key === 'string' && Object.prototype.hasOwnProperty.call(o, key);
+const isObject = (v: unknown): v is { [key: string]: any } => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isWholeNumber = (v: unknown, min: number): v is number => Number.isInteger(v) && (v as number) >= min;
+const isChance = (v: unknown): v is number => isNumber(v) && v >= 0 && v <= 1;
+
+const checkCurve = (v: unknown, field: string, fail: (msg: string) => void) => {
+    if (isNumber(v) && v >= 0) return;
+    if (isObject(v) && isNumber(v.base)) {
+        Object.keys(v).filter(k => !['base', 'perWave', 'power'].includes(k)).forEach(k => fail(`${field}.${k}: unknown field`));
+        if (v.perWave !== undefined && !isNumber(v.perWave)) fail(`${field}.perWave: must be a number`);
+        if (v.power !== undefined && !isNumber(v.power)) fail(`${field}.power: must be a number`);
+        return;
+    }
+    fail(`"${field}" must be a number, 0 or more, or { "base": ..., "perWave": ..., "power": ... }`);
+};
+
+const checkEnemyType = (v: unknown, field: string, fail: (msg: string) => void) => {
+    if (!has(ENEMY_TYPES, v)) fail(`${field}: unknown enemy type "${v}" (expected one of ${oneOf(Object.keys(ENEMY_TYPES))})`);
+};
+
+const checkPattern = (v: unknown, field: string, fail: (msg: string) => void) => {
+    if (!has(PATTERNS, v)) fail(`${field}: unknown pattern "${v}" (expected one of ${oneOf(Object.keys(PATTERNS))})`);
+};
+
+const checkEvent = (raw: unknown, path: string, fail: (msg: string) => void) => {
+    if (!isObject(raw)) {
+        fail(`${path}: expected an object`);
+        return;
+    }
+    Object.keys(raw).filter(k => !EVENT_FIELDS.includes(k)).forEach(k => fail(`${path}.${k}: unknown field`));
+    if (!isWholeNumber(raw.at, 0)) fail(`${path}.at: must be a whole number of ticks, 0 or more`);
+    if (raw.message !== undefined && (typeof raw.message !== 'string' || raw.message === '')) fail(`${path}.message: must be a non-empty string`);
+    if (raw.swarm !== undefined) {
+        if (!isObject(raw.swarm)) fail(`${path}.swarm: must be { "type": ..., "count": ..., "pattern": ... }`);
+        else {
+            checkEnemyType(raw.swarm.type, `${path}.swarm.type`, fail);
+            if (!isWholeNumber(raw.swarm.count, 1)) fail(`${path}.swarm.count: must be a whole number, 1 or more`);
+            checkPattern(raw.swarm.pattern, `${path}.swarm.pattern`, fail);
+        }
+    }
+    if (raw.message === undefined && raw.swarm === undefined) fail(`${path}: needs a "message" or a "swarm"`);
+};
+
+const checkRule = (raw: unknown, path: string, fail: (msg: string) => void) => {
+    if (!isObject(raw)) {
+        fail(`${path}: expected an object`);
+        return;
+    }
+    const at = (field: string) => `${path}.${field}`;
+    Object.keys(raw).filter(k => !RULE_FIELDS.includes(k)).forEach(k => fail(`${path}: unknown field "${k}"`));
+
+    if (!isWholeNumber(raw.from, 1)) fail(`${at('from')}: must be a whole number, 1 or more`);
+    if (raw.to !== undefined && !(isWholeNumber(raw.to, 1) && raw.to >= raw.from)) fail(`${at('to')}: must be a whole number, "from" or more`);
+    if (raw.every !== undefined && !isWholeNumber(raw.every, 1)) fail(`${at('every')}: must be a whole number, 1 or more`);
+    for (const field of ['count', 'spawnRate', 'maxAlive', 'eliteChance'] as const) {
+        if (raw[field] !== undefined) checkCurve(raw[field], at(field), fail);
+    }
+    if (raw.mix !== undefined) {
+        if (!Array.isArray(raw.mix)) fail(`${at('mix')}: must be a list of { "type": ..., "chance": ... }`);
+        else raw.mix.forEach((layer: unknown, i: number) => {
+            if (!isObject(layer)) return fail(`${at('mix')}[${i}]: expected an object`);
+            checkEnemyType(layer.type, `${at('mix')}[${i}].type`, fail);
+            if (!isChance(layer.chance)) fail(`${at('mix')}[${i}].chance: must be a number from 0 to 1`);
+        });
+    }
+    if (raw.pattern !== undefined) checkPattern(raw.pattern, at('pattern'), fail);
+    if (raw.groupSize !== undefined && !isWholeNumber(raw.groupSize, 1)) fail(`${at('groupSize')}: must be a whole number, 1 or more`);
+    if (raw.boss !== undefined && !BOSS_DEFS.some(b => b.id === raw.boss)) {
+        fail(`${at('boss')}: unknown boss "${raw.boss}" (expected one of ${oneOf(BOSS_DEFS.map(b => b.id))})`);
+    }
+    if (raw.breather !== undefined && !isWholeNumber(raw.breather, 1)) fail(`${at('breather')}: must be a whole number of ticks, 1 or more`);
+    if (raw.events !== undefined) {
+        if (!Array.isArray(raw.events)) fail(`${at('events')}: must be a list`);
+        else raw.events.forEach((ev: unknown, i: number) => checkEvent(ev, `${at('events')}[${i}]`, fail));
+    }
+};
+
+// Throws WaveScriptError listing every problem in the script
+export const parseWaveScript = (data: unknown, source: string): WaveScript => {
+    if (!isObject(data) || !Array.isArray(data.waves)) {
+        throw new WaveScriptError(source, ['expected { "id": ..., "waves": [...] }']);
+    }
+
+    const problems: string[] = [];
+    const fail = (msg: string) => problems.push(msg);
+    Object.keys(data).filter(k => !SCRIPT_FIELDS.includes(k)).forEach(k => fail(`unknown field "${k}"`));
+    for (const field of ['id', 'name'] as const) {
+        if (typeof data[field] !== 'string' || data[field] === '') fail(`"${field}" must be a non-empty string`);
+    }
+    if (!isWholeNumber(data.victoryWave, 1)) fail(`"victoryWave" must be a whole number, 1 or more`);
+    data.waves.forEach((raw: unknown, i: number) => checkRule(raw, `waves[${i}]`, fail));
+    if (problems.length === 0 && !data.waves.some((r: WaveRule) => r.from === 1)) fail(`no rule covers wave 1`);
+
+    if (problems.length > 0) throw new WaveScriptError(source, problems);
+    // Plain JSON once checked; copied so the caller's data can't change it later
+    return JSON.parse(JSON.stringify({ id: data.id, name: data.name, victoryWave: data.victoryWave, waves: data.waves }));
+};
+
+// --- Registry ---
+export const WAVE_SCRIPTS: Map<string, WaveScript> = new Map();
+export const DEFAULT_WAVE_SCRIPT = 'default';
+
+// Also how a changed script is hot-reloaded: registering it again replaces it
+export const registerWaveScript = (data: unknown, source: string) => {
+    const script = parseWaveScript(data, source);
+    WAVE_SCRIPTS.set(script.id, script);
+};
+
+registerWaveScript(baseScript, 'waves/base.json');
+
+// index.tsx registers a changed base.json again; accepting it here too keeps the dev server
+// from reloading the page through everything that imports this module
+if (import.meta.hot) import.meta.hot.accept('./waves/base.json', () => {});
+
+export const findWaveScript = (id: string): WaveScript =>
+    WAVE_SCRIPTS.get(id) ?? WAVE_SCRIPTS.get(DEFAULT_WAVE_SCRIPT)!;
+
+// Content hash (FNV-1a) of a registered script. Saves and replays keep it, so a script
+// that changed since, hot-reloaded or edited, is caught instead of spawning differently.
+const SCRIPT_HASHES: WeakMap<WaveScript, string> = new WeakMap();
+
+export const waveScriptHash = (script: WaveScript): string => {
+    let hash = SCRIPT_HASHES.get(script);
+    if (hash === undefined) {
+        const text = JSON.stringify(script);
+        let h = 0x811c9dc5;
+        for (let i = 0; i < text.length; i++) {
+            h ^= text.charCodeAt(i);
+            h = Math.imul(h, 0x01000193);
+        }
+        hash = (h >>> 0).toString(16).padStart(8, '0');
+        SCRIPT_HASHES.set(script, hash);
+    }
+    return hash;
+};
+
+const ruleCovers = (rule: WaveRule, wave: number) =>
+    wave >= rule.from && (rule.to === undefined || wave <= rule.to) && (rule.every === undefined || (wave - rule.from) % rule.every === 0);
+
+export const curveValue = (curve: Curve, wave: number) =>
+    typeof curve === 'number' ? curve : curve.base + (curve.perWave ?? 0) * Math.pow(wave, curve.power ?? 1);
+
+export const resolveWave = (script: WaveScript, wave: number): WaveSpec => {
+    let count: Curve = 0, spawnRate: Curve = 0, maxAlive: Curve = 0, eliteChance: Curve = 0;
+    const spec: WaveSpec = { count: 0, spawnRate: 0, maxAlive: 0, mix: [], pattern: 'scatter', groupSize: 1, eliteChance: 0, breather: 120, events: [] };
+    script.waves.filter(rule => ruleCovers(rule, wave)).forEach(rule => {
+        count = rule.count ?? count;
+        spawnRate = rule.spawnRate ?? spawnRate;
+        maxAlive = rule.maxAlive ?? maxAlive;
+        spec.mix = rule.mix ?? spec.mix;
+        spec.pattern = rule.pattern ?? spec.pattern;
+        spec.groupSize = rule.groupSize ?? spec.groupSize;
+        eliteChance = rule.eliteChance ?? eliteChance;
+        spec.boss = rule.boss ?? spec.boss;
+        spec.breather = rule.breather ?? spec.breather;
+        spec.events = rule.events ? [...spec.events, ...rule.events] : spec.events;
+    });
+    spec.count = Math.floor(curveValue(count, wave));
+    spec.spawnRate = curveValue(spawnRate, wave);
+    spec.maxAlive = curveValue(maxAlive, wave);
+    spec.eliteChance = Math.min(1, curveValue(eliteChance, wave));
+    return spec;
+};